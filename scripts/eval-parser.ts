@@ -0,0 +1,159 @@
+// Runs the card parser over the fixture corpus and reports per-field
+// precision/recall, so parser changes can be measured against real cards.
+//
+//   npm run eval:parser                  # summary table
+//   npm run eval:parser -- --verbose     # also list every mismatch
+//   npm run eval:parser -- --no-layout   # ignore recorded OCR line geometry
+//   npm run eval:parser -- --raw <file>  # parse a JSON array of saved raw_text values
+//   npm run eval:parser -- --raw <file> --region IN
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import {
+  extractContactInfo,
+  mergeCodeReading,
+  mergeSides,
+  parseCardCode,
+  CARD_FIELDS,
+  type CardField,
+  type ParsedCard,
+  type PostalAddress,
+  type TextBlock,
+} from '../supabase/functions/_shared/card-parser/index.ts';
+
+interface Fixture {
+  id: string;
+  text: string;
+  // Stands in for the scanning user's profile region
+  region?: string;
+  // OCR line geometry, for cards where layout decides a field
+  layout?: TextBlock[];
+  // Text of the back of a two-sided card, merged with the front
+  back?: string;
+  // Payload of the card's QR code, preferred over the OCR text
+  qr?: string;
+  expected: Partial<Record<CardField, string>> & { address?: PostalAddress };
+}
+
+interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+// Address parts are scored as their own rows, e.g. "address.city"
+const ADDRESS_PARTS: (keyof PostalAddress)[] = ['street', 'city', 'region', 'postal_code', 'country'];
+type ScoredField = CardField | `address.${keyof PostalAddress}`;
+const SCORED_FIELDS: ScoredField[] = [...CARD_FIELDS, ...ADDRESS_PARTS.map(part => `address.${part}` as const)];
+
+const valueOf = (card: Partial<Record<CardField, string>> & { address?: PostalAddress }, field: ScoredField) =>
+  field.startsWith('address.')
+    ? card.address?.[field.slice('address.'.length) as keyof PostalAddress]
+    : card[field as CardField];
+
+const corpusPath = fileURLToPath(new URL('./fixtures/cards.json', import.meta.url));
+
+const normalise = (field: ScoredField, value?: string) => {
+  if (!value) return '';
+  const trimmed = value.trim().toLowerCase();
+
+  switch (field) {
+    case 'phone':
+      return trimmed.replace(/[^\d]/g, '');
+    case 'website':
+      return trimmed.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/$/, '');
+    case 'location':
+    case 'address.street':
+      return trimmed.replace(/[\s,]+/g, ' ');
+    default:
+      return trimmed.replace(/\s+/g, ' ');
+  }
+};
+
+const scoreCorpus = (fixtures: Fixture[], verbose: boolean, useLayout: boolean) => {
+  const scores = Object.fromEntries(
+    SCORED_FIELDS.map(field => [field, { truePositives: 0, falsePositives: 0, falseNegatives: 0 }])
+  ) as Record<ScoredField, FieldScore>;
+
+  for (const fixture of fixtures) {
+    const front = extractContactInfo(fixture.text, {
+      defaultRegion: fixture.region,
+      layout: useLayout ? fixture.layout : undefined,
+    });
+    const sides: ParsedCard = fixture.back
+      ? mergeSides(front, extractContactInfo(fixture.back, { defaultRegion: fixture.region }))
+      : front;
+    const code = fixture.qr ? parseCardCode(fixture.qr, fixture.region) : null;
+    const parsed = code ? mergeCodeReading(sides, code) : sides;
+
+    for (const field of SCORED_FIELDS) {
+      const expected = normalise(field, valueOf(fixture.expected, field));
+      const actual = normalise(field, valueOf(parsed, field));
+      const score = scores[field];
+
+      if (actual && actual === expected) {
+        score.truePositives++;
+        continue;
+      }
+      if (actual) score.falsePositives++;
+      if (expected) score.falseNegatives++;
+
+      if (verbose && (actual || expected)) {
+        console.log(`  ${fixture.id} ${field}: expected ${JSON.stringify(valueOf(fixture.expected, field) ?? null)}, got ${JSON.stringify(valueOf(parsed, field) ?? null)}`);
+      }
+    }
+  }
+
+  return scores;
+};
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? 1 : numerator / denominator;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+const LABEL_WIDTH = 20;
+
+const printReport = (scores: Record<ScoredField, FieldScore>, total: number) => {
+  console.log(`\nParser evaluation over ${total} cards\n`);
+  console.log(`${'field'.padEnd(LABEL_WIDTH)} ${'precision'.padStart(9)} ${'recall'.padStart(7)} ${'f1'.padStart(7)}`);
+
+  let tp = 0, fp = 0, fn = 0;
+  for (const field of SCORED_FIELDS) {
+    const { truePositives, falsePositives, falseNegatives } = scores[field];
+    tp += truePositives;
+    fp += falsePositives;
+    fn += falseNegatives;
+
+    const precision = ratio(truePositives, truePositives + falsePositives);
+    const recall = ratio(truePositives, truePositives + falseNegatives);
+    const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+    console.log(`${field.padEnd(LABEL_WIDTH)} ${formatPercent(precision).padStart(9)} ${formatPercent(recall)} ${formatPercent(f1)}`);
+  }
+
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  console.log(`${'overall'.padEnd(LABEL_WIDTH)} ${formatPercent(precision).padStart(9)} ${formatPercent(recall)} ${formatPercent(f1)}\n`);
+};
+
+const args = process.argv.slice(2);
+const rawIndex = args.indexOf('--raw');
+
+if (rawIndex !== -1) {
+  const rawFile = args[rawIndex + 1];
+  if (!rawFile) {
+    console.error('Usage: eval-parser --raw <file.json>');
+    process.exit(1);
+  }
+  const regionIndex = args.indexOf('--region');
+  const defaultRegion = regionIndex === -1 ? undefined : args[regionIndex + 1];
+  const texts: string[] = JSON.parse(readFileSync(rawFile, 'utf8'));
+  for (const text of texts) {
+    console.log(JSON.stringify(extractContactInfo(text, { defaultRegion })));
+  }
+} else {
+  const fixtures: Fixture[] = JSON.parse(readFileSync(corpusPath, 'utf8'));
+  if (args.includes('--verbose')) console.log('Mismatches:');
+  const scores = scoreCorpus(fixtures, args.includes('--verbose'), !args.includes('--no-layout'));
+  printReport(scores, fixtures.length);
+}
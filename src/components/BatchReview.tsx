@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { X, Save, Loader2, Pencil, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import type { QueuedCard } from '@/hooks/useScanQueue';
+import { cn } from '@/lib/utils';
+import { LOW_CONFIDENCE_THRESHOLD, type CardField } from '@/lib/card-parser';
+import { saveContact, type ContactData } from '@/lib/contacts';
+import ContactForm from './ContactForm';
+
+// The fields worth checking at a glance; everything else is under "Edit"
+const quickFields: { field: CardField; label: string }[] = [
+  { field: 'name', label: 'Full name' },
+  { field: 'company', label: 'Company' },
+  { field: 'job_title', label: 'Job title' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+];
+
+// Reads and writes the primary value, keeping the value lists in step
+const primaryValue = (draft: ContactData, field: CardField) =>
+  field === 'phone' ? draft.phones?.[0]?.number ?? '' : (draft[field] as string | undefined) ?? '';
+
+const withPrimaryValue = (draft: ContactData, field: CardField, value: string): ContactData => {
+  if (field === 'phone') {
+    const [first, ...rest] = draft.phones ?? [];
+    return { ...draft, phone: value, phones: [{ type: first?.type ?? 'other', number: value }, ...rest] };
+  }
+  if (field === 'email' || field === 'website') {
+    const listField = field === 'email' ? 'emails' : 'websites';
+    return { ...draft, [field]: value, [listField]: [value, ...(draft[listField] ?? []).slice(1)] };
+  }
+  return { ...draft, [field]: value };
+};
+
+interface BatchReviewProps {
+  cards: QueuedCard[];
+  onUpdate: (id: string, draft: ContactData) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+// Every card from a batch on one screen, to fix what the OCR got wrong and
+// save them all at once
+const BatchReview = ({ cards, onUpdate, onRetry, onRemove, onSaved, onClose }: BatchReviewProps) => {
+  const { user } = useAuth();
+  const { defaultRegion } = useProfile();
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<QueuedCard | null>(null);
+  const { toast } = useToast();
+
+  const ready = cards.filter(card => card.status === 'done' && card.draft);
+  const reading = cards.filter(card => card.status === 'queued' || card.status === 'scanning').length;
+
+  const needsReview = (draft: ContactData, field: CardField) => {
+    const score = draft.field_scores?.[field];
+    return !!score && score.confidence < LOW_CONFIDENCE_THRESHOLD;
+  };
+
+  const handleSaveAll = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    let saved = 0;
+    for (const card of ready) {
+      try {
+        await saveContact(user.id, card.draft!, defaultRegion);
+        onRemove(card.id);
+        saved++;
+      } catch (error) {
+        console.error('Batch save error:', error);
+      }
+    }
+    setSaving(false);
+
+    const failed = ready.length - saved;
+    toast(failed
+      ? { title: "Some Cards Not Saved", description: `${saved} saved, ${failed} failed. Please try again.`, variant: "destructive" }
+      : { title: "Success", description: `${saved} ${saved === 1 ? 'contact' : 'contacts'} saved!` });
+    if (saved) onSaved();
+    if (saved === cards.length) onClose();
+  };
+
+  if (editing?.draft) {
+    return (
+      <ContactForm
+        initialData={editing.draft}
+        onSave={() => setEditing(null)}
+        onClose={() => setEditing(null)}
+        onApply={(draft) => {
+          onUpdate(editing.id, draft);
+          setEditing(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Review {cards.length === 1 ? '1 Card' : `${cards.length} Cards`}</CardTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} disabled={saving}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {cards.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">No cards waiting for review.</p>
+          )}
+
+          {cards.map((card, index) => (
+            <div key={card.id} className="flex gap-3 rounded-lg border p-3">
+              <img
+                src={card.images.front}
+                alt={card.name ?? `Card ${index + 1}`}
+                className="h-16 w-28 shrink-0 rounded object-cover bg-muted"
+              />
+
+              <div className="flex-1 min-w-0 space-y-2">
+                {(card.status === 'queued' || card.status === 'scanning') && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground h-16">
+                    <Loader2 className={cn("h-4 w-4", card.status === 'scanning' && "animate-spin")} />
+                    {card.status === 'scanning' ? 'Reading card...' : 'Waiting to be read'}
+                  </div>
+                )}
+
+                {card.status === 'failed' && (
+                  <div className="flex items-center gap-2 text-sm text-destructive h-16">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{card.error}</span>
+                  </div>
+                )}
+
+                {card.status === 'done' && card.draft && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {quickFields.map(({ field, label }) => (
+                      <Input
+                        key={field}
+                        value={primaryValue(card.draft!, field)}
+                        onChange={(e) => onUpdate(card.id, withPrimaryValue(card.draft!, field, e.target.value))}
+                        placeholder={label}
+                        aria-label={label}
+                        disabled={saving}
+                        className={cn(
+                          "h-8",
+                          needsReview(card.draft!, field) && 'border-amber-500 focus-visible:ring-amber-500'
+                        )}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-1">
+                {card.status === 'done' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setEditing(card)}
+                    disabled={saving}
+                    aria-label="Edit all fields"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                {card.status === 'failed' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onRetry(card.id)}
+                    aria-label="Try again"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onRemove(card.id)}
+                  disabled={saving || card.status === 'scanning'}
+                  aria-label="Remove card"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {reading > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {reading === 1 ? '1 card is' : `${reading} cards are`} still being read. You can save the others now.
+            </p>
+          )}
+
+          <Button onClick={handleSaveAll} disabled={saving || ready.length === 0} className="w-full">
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                Save {ready.length === 1 ? '1 Contact' : `${ready.length} Contacts`}
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BatchReview;
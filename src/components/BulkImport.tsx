@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { X, Loader2, CheckCircle2, AlertCircle, Clock, ListChecks } from 'lucide-react';
+import type { NewQueuedCard, QueuedCard } from '@/hooks/useScanQueue';
+import { expandImportFiles } from '@/lib/card-import';
+import { cn } from '@/lib/utils';
+
+// One imported image: preparing, then followed through the scan queue by id
+interface ImportRow {
+  name: string;
+  queueId?: string;
+  error?: string;
+}
+
+type RowState = { label: string; finished: boolean; failed?: boolean; busy?: boolean };
+
+const rowState = (row: ImportRow, card: QueuedCard | undefined): RowState => {
+  if (row.error) return { label: row.error, finished: true, failed: true };
+  if (!row.queueId) return { label: 'Preparing...', finished: false, busy: true };
+  // Gone from the queue: saved or removed in the review
+  if (!card) return { label: 'Done', finished: true };
+
+  switch (card.status) {
+    case 'queued':
+      return { label: 'Waiting', finished: false };
+    case 'scanning':
+      return { label: 'Reading...', finished: false, busy: true };
+    case 'done':
+      return { label: card.draft?.name || card.draft?.company || 'Read', finished: true };
+    case 'failed':
+      return { label: card.error ?? 'Failed', finished: true, failed: true };
+  }
+};
+
+interface BulkImportProps {
+  files: File[];
+  language: string;
+  cards: QueuedCard[];
+  onQueue: (card: NewQueuedCard) => string;
+  onReview: () => void;
+  onClose: () => void;
+}
+
+// Feeds a folder, a multi-select, ZIP archives or PDFs of cards into the scan
+// queue, showing how far each one has got
+const BulkImport = ({ files, language, cards, onQueue, onReview, onClose }: BulkImportProps) => {
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      const entries = await expandImportFiles(files);
+      if (cancelled) return;
+      setRows(entries.map(({ name, error }) => ({ name, error })));
+
+      // One at a time: each photo is decoded at full size while it is prepared
+      for (const [index, entry] of entries.entries()) {
+        if (!entry.read) continue;
+        const update = (changes: Partial<ImportRow>) =>
+          setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+        try {
+          const { image, text, source } = await entry.read();
+          if (cancelled) return;
+          update({ queueId: onQueue({ images: { front: image }, source, language, name: entry.name, text }) });
+        } catch (error) {
+          if (cancelled) return;
+          console.error('Import error:', entry.name, error);
+          update({ error: error instanceof Error ? error.message : 'Could not read the image' });
+        }
+      }
+    };
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files, language, onQueue]);
+
+  const states = (rows ?? []).map(row => rowState(row, cards.find(card => card.id === row.queueId)));
+  const finished = states.filter(state => state.finished).length;
+  const failed = states.filter(state => state.failed).length;
+  const total = states.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-md max-h-[90vh] flex flex-col">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Import Cards</CardTitle>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          {rows === null ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Looking for images...
+            </div>
+          ) : total === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No images found in the selection.</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Progress value={(finished / total) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {finished} of {total} processed{failed > 0 && `, ${failed} failed`}
+                </p>
+              </div>
+
+              <ul className="space-y-1">
+                {rows.map((row, index) => {
+                  const state = states[index];
+                  const Icon = state.failed ? AlertCircle : state.busy ? Loader2 : state.finished ? CheckCircle2 : Clock;
+                  return (
+                    <li key={`${row.name}-${index}`} className="flex items-center gap-2 text-sm">
+                      <Icon
+                        className={cn(
+                          "h-4 w-4 shrink-0 text-muted-foreground",
+                          state.busy && "animate-spin",
+                          state.finished && "text-green-600",
+                          state.failed && "text-destructive"
+                        )}
+                      />
+                      <span className="truncate flex-1" title={row.name}>{row.name}</span>
+                      <span className={cn("truncate text-xs text-muted-foreground", state.failed && "text-destructive")}>
+                        {state.label}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+
+          <Button onClick={onReview} disabled={!rows?.some(row => row.queueId)} className="w-full">
+            <ListChecks className="h-4 w-4 mr-2" />
+            Review Cards
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BulkImport;
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useCardImageUrls } from '@/hooks/useCardImageUrls';
+
+type Side = 'front' | 'back';
+
+interface CardImageViewerProps {
+  // Bucket paths of saved contacts, or data URLs straight from the scanner
+  front?: string | null;
+  back?: string | null;
+}
+
+// Thumbnails of the scanned card; either one opens the full-size image, to
+// check the original when the OCR got something wrong
+const CardImageViewer = ({ front, back }: CardImageViewerProps) => {
+  const [openSide, setOpenSide] = useState<Side | null>(null);
+  const urlFor = useCardImageUrls([front, back]);
+
+  const sides = ([['front', front], ['back', back]] as const)
+    .filter(([, reference]) => !!reference)
+    .map(([side, reference]) => ({ side: side as Side, url: urlFor(reference) }));
+
+  if (sides.length === 0) return null;
+
+  const label = (side: Side) => (side === 'front' ? 'Front' : 'Back');
+  const openUrl = sides.find(({ side }) => side === openSide)?.url;
+
+  return (
+    <>
+      <div className="flex gap-2">
+        {sides.map(({ side, url }) => (
+          <button
+            key={side}
+            type="button"
+            onClick={() => setOpenSide(side)}
+            className="h-16 w-28 overflow-hidden rounded-md border bg-muted"
+            aria-label={`View ${label(side).toLowerCase()} of card`}
+          >
+            {url && <img src={url} alt={`${label(side)} of business card`} className="h-full w-full object-cover" />}
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={openSide !== null} onOpenChange={(open) => !open && setOpenSide(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Scanned Card</DialogTitle>
+          </DialogHeader>
+          {sides.length > 1 && (
+            <div className="flex gap-2">
+              {sides.map(({ side }) => (
+                <Button
+                  key={side}
+                  variant={side === openSide ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setOpenSide(side)}
+                >
+                  {label(side)}
+                </Button>
+              ))}
+            </div>
+          )}
+          {openUrl ? (
+            <img
+              src={openUrl}
+              alt={`${label(openSide ?? 'front')} of business card`}
+              className="w-full max-h-[70vh] rounded-lg object-contain"
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading image...</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CardImageViewer;
@@ -1,41 +1,157 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Camera, Upload, X, Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Upload, X, Loader2, FlipHorizontal, Trash2, Crop, ListChecks, FolderOpen, ClipboardPaste, QrCode } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import Tesseract from 'tesseract.js';
-import { supabase } from '@/integrations/supabase/client';
-
-interface ScannedData {
-  name?: string;
-  phone?: string;
-  email?: string;
-  company?: string;
-  job_title?: string;
-  website?: string;
-  location?: string;
-  raw_text: string;
-  source: 'camera' | 'upload';
-  confidence?: number;
+import { useProfile } from '@/hooks/useProfile';
+import { useAutoCapture } from '@/hooks/useAutoCapture';
+import { useLearnedRules } from '@/hooks/useLearnedRules';
+import type { NewQueuedCard } from '@/hooks/useScanQueue';
+import { AUTO_LANGUAGE, OCR_LANGUAGES } from '@/lib/ocr-languages';
+import { cn } from '@/lib/utils';
+import { cropCard, findCardCorners, type FrameIssue, type Quad } from '@/lib/card-image';
+import {
+  parsePastedText,
+  scanCard,
+  type CardImages,
+  type KnownReadings,
+  type ScanProgress,
+  type ScanSource,
+  type ScannedData,
+} from '@/lib/card-scan';
+import { OCR_PROVIDER_LABELS, OcrError, warmUpTesseract, type OcrErrorCode, type OcrProviderId } from '@/lib/ocr';
+import { isPdfFile, openPdf, readPdfPage } from '@/lib/card-pdf';
+import { parseCardCode } from '@/lib/card-parser';
+import { isZipFile } from '@/lib/card-import';
+import CornerAdjuster from './CornerAdjuster';
+
+type CardSide = 'front' | 'back';
+
+// A capture waiting for the user to confirm the card's corners
+interface PendingImage {
+  image: string;
+  source: ScanSource;
+  corners: Quad;
+  detected: boolean;
+}
+
+const frameHints: Record<FrameIssue, string> = {
+  'no-card': 'Fill the guide with the card',
+  'too-small': 'Move closer',
+  'too-dark': 'Find more light',
+  moving: 'Hold still',
+  glare: 'Too much glare, tilt the card',
+  blurry: 'Hold still to focus',
+};
+
+// Batch mode: each capture goes to a queue read in the background, and the
+// camera comes straight back for the next card
+interface BatchOptions {
+  queued: number;
+  onQueue: (card: NewQueuedCard) => void;
+  onReview: () => void;
 }
 
+// Why an earlier provider was passed over, shown when a later one reads the card
+const fallbackReasons: Partial<Record<OcrErrorCode, string>> = {
+  quota_exceeded: 'has reached its limit',
+  unauthorized: 'needs you to sign in again',
+  timeout: 'took too long',
+};
+
+// What to tell the user when no provider could read the card, and whether a
+// new photo is needed
+const scanFailure = (error: unknown): { title: string; description: string; retake?: boolean } => {
+  const code = error instanceof OcrError ? error.code : 'provider_error';
+  const message = error instanceof Error ? error.message : 'Failed to process the image.';
+  switch (code) {
+    case 'unauthorized':
+      return { title: "Session Expired", description: "Sign out and back in, then scan the card again." };
+    case 'no_text':
+      return {
+        title: "No Text Found",
+        description: "Hold the card flat, fill the frame and avoid glare, then take another photo.",
+        retake: true,
+      };
+    case 'bad_input':
+    case 'image_too_large':
+    case 'unsupported_type':
+      return { title: "Image Not Supported", description: message, retake: true };
+    case 'quota_exceeded':
+      return {
+        title: "Scan Limit Reached",
+        description: "This month's Google Vision scans are used up and the offline reader could not read the card.",
+      };
+    case 'timeout':
+      return { title: "Scan Timed Out", description: `${message}. Try again, or allow more time on your profile.` };
+    default:
+      return { title: "Scan Failed", description: `${message} Please try again with better lighting.` };
+  }
+};
+
 interface CardScannerProps {
   onScanComplete: (data: ScannedData) => void;
   onClose: () => void;
+  batch?: BatchOptions;
+  // Several files, a folder or a ZIP picked instead of a single photo
+  onImport: (files: File[], language: string) => void;
 }
 
-const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
+const CardScanner = ({ onScanComplete, onClose, batch, onImport }: CardScannerProps) => {
   const [scanning, setScanning] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const [images, setImages] = useState<Record<CardSide, string | null>>({ front: null, back: null });
+  // The side the camera is capturing, or null while reviewing the captures
+  const [capturingSide, setCapturingSide] = useState<CardSide | null>('front');
+  const [pending, setPending] = useState<PendingImage | null>(null);
+  const [cropping, setCropping] = useState(false);
   const [cameraActive, setCameraActive] = useState(false);
-  const [uploadSource, setUploadSource] = useState<'camera' | 'upload'>('camera');
+  const [uploadSource, setUploadSource] = useState<ScanSource>('camera');
+  const [language, setLanguage] = useState<string>(AUTO_LANGUAGE);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [pasting, setPasting] = useState(false);
+  const [pastedText, setPastedText] = useState('');
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // QR payloads seen in the viewfinder for the card being captured. The code
+  // is often easier to read live than in the still.
+  const liveCodesRef = useRef<string[]>([]);
+  const scanAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { profile, defaultRegion, ocrSettings } = useProfile();
+  const rules = useLearnedRules();
+
+  useEffect(() => {
+    setLanguage(profile?.ocr_language ?? AUTO_LANGUAGE);
+  }, [profile]);
+
+  // Loads the offline reader while the card is being framed
+  useEffect(() => {
+    if (ocrSettings.providers.some(provider => provider.id === 'tesseract' && provider.enabled)) {
+      warmUpTesseract(language);
+    }
+  }, [language, ocrSettings]);
+
+  // Closing the scanner stops a scan still running
+  useEffect(() => () => scanAbortRef.current?.abort(), []);
+
+  const stopCamera = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    setCameraActive(false);
+  }, []);
 
-  const startCamera = async () => {
+  const startCamera = useCallback(async () => {
     try {
       // Stop any existing stream first
       stopCamera();
@@ -63,21 +179,13 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
         variant: "destructive",
       });
     }
-  };
+  }, [stopCamera, toast]);
 
   // Auto-start camera when component mounts
   useEffect(() => {
     startCamera();
     return () => stopCamera();
-  }, []);
-
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    setCameraActive(false);
-  };
+  }, [startCamera, stopCamera]);
 
   const capturePhoto = () => {
     if (videoRef.current && canvasRef.current && cameraActive) {
@@ -101,21 +209,45 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
       if (context) {
         context.drawImage(video, 0, 0);
         const imageData = canvas.toDataURL('image/jpeg', 0.9);
-        setCapturedImage(imageData);
-        setUploadSource('camera');
-        stopCamera();
+        if (frame.qrCode && !liveCodesRef.current.includes(frame.qrCode)) {
+          liveCodesRef.current.push(frame.qrCode);
+        }
+        storeImage(imageData, 'camera');
       }
     }
   };
 
+  const frame = useAutoCapture(
+    videoRef,
+    cameraActive && !!capturingSide && !pending,
+    autoCapture ? capturePhoto : undefined,
+    !!batch && batch.queued > 0
+  );
+  const liveCode = frame.qrCode ? parseCardCode(frame.qrCode, defaultRegion) : null;
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same files again, e.g. for the other side
+    event.target.value = '';
+
+    // More than one card goes to the bulk import; a back side is always one photo
+    if (capturingSide !== 'back' && (files.length > 1 || files.some(isZipFile) || event.target === folderInputRef.current)) {
+      stopCamera();
+      onImport(files, language);
+      return;
+    }
+
+    const file = files[0];
+    if (file && isPdfFile(file)) {
+      handlePdf(file);
+      return;
+    }
     if (file) {
       // Validate file type and size
       if (!file.type.startsWith('image/')) {
         toast({
           title: "Invalid File",
-          description: "Please select an image file.",
+          description: "Please select an image or PDF file.",
           variant: "destructive",
         });
         return;
@@ -132,206 +264,290 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
       
       const reader = new FileReader();
       reader.onload = (e) => {
-        setCapturedImage(e.target?.result as string);
-        setUploadSource('upload');
-        stopCamera();
+        storeImage(e.target?.result as string, 'upload');
       };
       reader.readAsDataURL(file);
     }
   };
 
-  const extractContactInfo = (text: string, confidence?: number): ScannedData => {
-    // Enhanced regex patterns for better extraction
-    const emailRegex = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/gi;
-    const phoneRegex = /(\+?91[\s-]?[6-9]\d{9}|\+?1[\s-]?\(?[2-9]\d{2}\)?[\s-]?[2-9]\d{2}[\s-]?\d{4}|\+?[1-9]\d{1,14})/g;
-    const websiteRegex = /(?:https?:\/\/)?(?:www\.)?([a-zA-Z0-9][a-zA-Z0-9-]{1,61}[a-zA-Z0-9]\.[a-zA-Z]{2,})/gi;
-    
-    // Clean and normalize text
-    const cleanText = text.replace(/[^\w\s@.+\-()]/gi, ' ').replace(/\s+/g, ' ').trim();
-    const lines = text.split(/[\n\r]+/).map(line => line.trim()).filter(line => line.length > 1);
-    
-    const emails = cleanText.match(emailRegex);
-    const phones = cleanText.match(phoneRegex);
-    const websites = cleanText.match(websiteRegex);
-    
-    // Enhanced name detection with better patterns
-    const nameCandidate = lines.find((line, index) => {
-      const trimmed = line.trim();
-      
-      // Name is typically first line or within first 3 lines
-      if (index > 3) return false;
-      
-      // Check for proper name pattern
-      const isValidName = /^[A-Z][a-zA-Z]{1,}\s+[A-Z][a-zA-Z]{1,}(\s+[A-Z][a-zA-Z]{1,})?$/.test(trimmed);
-      const hasNoNumbers = !/\d/.test(trimmed);
-      const hasNoEmail = !emails?.some(email => trimmed.toLowerCase().includes(email.toLowerCase()));
-      const hasNoPhone = !phones?.some(phone => trimmed.includes(phone.replace(/\D/g, '')));
-      const hasNoWebsite = !websites?.some(website => trimmed.toLowerCase().includes(website.toLowerCase()));
-      
-      return isValidName && hasNoNumbers && hasNoEmail && hasNoPhone && hasNoWebsite;
-    });
-    
-    // Enhanced company detection
-    const companyKeywords = [
-      'inc', 'inc.', 'ltd', 'ltd.', 'llc', 'corp', 'corporation', 'company', 'co.', 'co', 
-      'group', 'solutions', 'services', 'technologies', 'systems', 'enterprises', 'consulting',
-      'pvt', 'private', 'limited', 'software', 'tech', 'digital', 'innovation'
-    ];
-    
-    const companyCandidate = lines.find((line, index) => {
-      const trimmed = line.trim().toLowerCase();
-      
-      // Skip lines that are likely names or contact info
-      if (nameCandidate && line === nameCandidate) return false;
-      if (emails?.some(email => trimmed.includes(email.toLowerCase()))) return false;
-      if (phones?.some(phone => trimmed.includes(phone.replace(/\D/g, '')))) return false;
-      
-      // Check for company keywords
-      const hasCompanyKeyword = companyKeywords.some(keyword => 
-        trimmed.includes(keyword) || trimmed.endsWith(keyword)
-      );
-      
-      // Check for proper company formatting
-      const isProperCase = /^[A-Z][a-zA-Z\s&,.-]{2,}/.test(line.trim());
-      
-      return hasCompanyKeyword || (isProperCase && index < 5);
-    });
-    
-    // Enhanced job title detection
-    const titleKeywords = [
-      'manager', 'director', 'ceo', 'cto', 'cfo', 'president', 'vice president', 'vp',
-      'senior', 'lead', 'head', 'chief', 'engineer', 'developer', 'analyst', 'consultant',
-      'specialist', 'coordinator', 'executive', 'officer', 'founder', 'partner', 'associate'
-    ];
-    
-    const jobTitleCandidate = lines.find(line => {
-      const trimmed = line.trim().toLowerCase();
-      
-      // Skip if it's the name or company
-      if (nameCandidate && line === nameCandidate) return false;
-      if (companyCandidate && line === companyCandidate) return false;
-      
-      return titleKeywords.some(keyword => trimmed.includes(keyword));
-    });
-    
-    // Enhanced address detection
-    const addressCandidate = lines.find(line => {
-      const trimmed = line.trim();
-      
-      // Skip contact info lines
-      if (emails?.some(email => trimmed.toLowerCase().includes(email.toLowerCase()))) return false;
-      if (phones?.some(phone => trimmed.includes(phone.replace(/\D/g, '')))) return false;
-      
-      // Look for address patterns
-      return (
-        /\d+.*(?:street|st\.?|avenue|ave\.?|road|rd\.?|drive|dr\.?|lane|ln\.?|boulevard|blvd\.?)/i.test(trimmed) ||
-        /[A-Z][a-z]+,\s*[A-Z]{2}\s*\d{5}/.test(trimmed) ||
-        /\d{6}/.test(trimmed) || // Indian postal codes
-        /\d{5}/.test(trimmed) // US ZIP codes
-      );
-    });
-    
-    // Clean phone number
-    const cleanPhone = phones?.[0]?.replace(/[^\d+]/g, '');
-    
-    return {
-      name: nameCandidate?.trim(),
-      email: emails?.[0]?.toLowerCase(),
-      phone: cleanPhone,
-      website: websites?.[0]?.replace(/^(https?:\/\/)?/, ''),
-      company: companyCandidate?.trim(),
-      job_title: jobTitleCandidate?.trim(),
-      location: addressCandidate?.trim(),
-      raw_text: text,
-      source: uploadSource,
-      confidence
-    };
+  // Uses the PDF's text layer when it has one, and the rendered page otherwise.
+  // PDFs need no corner adjusting: the page is the card.
+  const handlePdf = async (file: File) => {
+    stopCamera();
+    try {
+      const pdf = await openPdf(file);
+      if (pdf.numPages > 1 && capturingSide !== 'back') {
+        onImport([file], language);
+        return;
+      }
+
+      const page = await readPdfPage(pdf, 1);
+      if (batch) {
+        batch.onQueue({ images: { front: page.image }, source: 'pdf', language, name: file.name, text: page.text });
+        startCamera();
+      } else if (page.text && capturingSide === 'front' && !images.back) {
+        // Shown while the text is parsed, and kept to scan again if that fails
+        acceptImage(page.image, 'pdf');
+        await runScan({ front: page.image }, 'pdf', { frontText: page.text });
+      } else {
+        acceptImage(page.image, 'pdf');
+      }
+    } catch (error) {
+      console.error('PDF error:', error);
+      toast({
+        title: "Invalid File",
+        description: "Could not open the PDF.",
+        variant: "destructive",
+      });
+      startCamera();
+    }
   };
 
-  const processImage = async () => {
-    if (!capturedImage) return;
-    
-    setScanning(true);
+  const startPasting = () => {
+    stopCamera();
+    setPasting(true);
+  };
+
+  const cancelPasting = () => {
+    setPasting(false);
+    setPastedText('');
+    startCamera();
+  };
+
+  const parsePasted = () => {
     try {
-      let extractedText = '';
-      let confidence = 0;
-      
-      // Try Google Cloud Vision API first
-      try {
-        const response = await supabase.functions.invoke('vision-ocr', {
-          body: { imageData: capturedImage }
-        });
-        
-        if (response.data?.success) {
-          extractedText = response.data.text;
-          confidence = response.data.confidence || 0.8;
-          console.log('OCR completed with Google Vision API, confidence:', confidence);
-        } else {
-          throw new Error(response.data?.error || 'Vision API failed');
-        }
-      } catch (visionError) {
-        console.log('Vision API failed, using Tesseract fallback:', visionError);
-        
-        // Fallback to Tesseract with enhanced settings
-        const result = await Tesseract.recognize(
-          capturedImage,
-          'eng',
-          {
-            logger: (m) => {
-              if (m.status === 'recognizing text') {
-                console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
-              }
-            }
-          }
-        );
-        extractedText = result.data.text;
-        confidence = result.data.confidence / 100; // Tesseract gives 0-100
-        console.log('OCR completed with Tesseract, confidence:', confidence);
-      }
-      
-      if (!extractedText || extractedText.trim().length < 3) {
-        throw new Error('No text could be extracted from the image');
+      onScanComplete(parsePastedText(pastedText, { language, defaultRegion, rules }));
+    } catch (error) {
+      toast({
+        title: "Nothing to Read",
+        description: error instanceof Error ? error.message : "Paste the text of a card or signature first.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Finds the card in the capture and hands it to the corner adjuster
+  const storeImage = async (imageData: string, source: ScanSource) => {
+    stopCamera();
+    try {
+      const { corners, detected } = await findCardCorners(imageData);
+      // Batches only stop for the corner adjuster when detection needs help
+      if (batch && detected) {
+        acceptImage(await cropCard(imageData, corners).catch(() => imageData), source);
+        return;
       }
-      
-      const extractedData = extractContactInfo(extractedText, confidence);
+      setPending({ image: imageData, source, corners, detected });
+    } catch (error) {
+      console.error('Card detection failed:', error);
+      acceptImage(imageData, source);
+    }
+  };
+
+  const acceptImage = (imageData: string, source: ScanSource) => {
+    if (batch) {
+      batch.onQueue({ images: { front: imageData }, source, language, qrCodes: liveCodesRef.current });
+      liveCodesRef.current = [];
+      setPending(null);
+      startCamera();
+      return;
+    }
+
+    const side = capturingSide ?? 'front';
+    setImages(prev => ({ ...prev, [side]: imageData }));
+    if (side === 'front') setUploadSource(source);
+    setCapturingSide(null);
+    setPending(null);
+  };
+
+  const applyCrop = async () => {
+    if (!pending) return;
+    setCropping(true);
+    try {
+      acceptImage(await cropCard(pending.image, pending.corners), pending.source);
+    } catch (error) {
+      console.error('Crop failed:', error);
+      toast({
+        title: "Crop Failed",
+        description: "Using the whole photo instead.",
+        variant: "destructive",
+      });
+      acceptImage(pending.image, pending.source);
+    } finally {
+      setCropping(false);
+    }
+  };
+
+  const discardPending = () => {
+    setPending(null);
+    startCamera();
+  };
+
+  // Scans the card with the progress bar and a way to cancel
+  const runScan = async (sides: CardImages, source: ScanSource, known: KnownReadings) => {
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    const skipped: { provider: OcrProviderId; error: OcrError }[] = [];
+    setScanning(true);
+    try {
+      const extractedData = await scanCard(
+        sides,
+        source,
+        {
+          language,
+          defaultRegion,
+          visionPreprocess: profile?.vision_preprocess,
+          ocr: ocrSettings,
+          rules,
+          signal: controller.signal,
+          onProgress: setProgress,
+          onProviderError: (provider, error) => skipped.push({ provider, error }),
+        },
+        known
+      );
       onScanComplete(extractedData);
       
+      const reader = extractedData.ocr_provider as OcrProviderId;
+      const fallback = skipped.find(({ error }) => fallbackReasons[error.code]);
       toast({
         title: "Scan Complete",
-        description: `Business card processed successfully! (${Math.round(confidence * 100)}% confidence)`,
+        description: `Business card processed successfully! (${Math.round((extractedData.confidence ?? 0) * 100)}% confidence)` +
+          (fallback && reader in OCR_PROVIDER_LABELS
+            ? ` Read with ${OCR_PROVIDER_LABELS[reader]} because ${OCR_PROVIDER_LABELS[fallback.provider]} ${fallbackReasons[fallback.error.code]}.`
+            : ''),
       });
       
     } catch (error) {
+      if (error instanceof OcrError && error.code === 'cancelled') return;
       console.error('OCR Error:', error);
-      toast({
-        title: "Scan Failed",
-        description: error instanceof Error ? error.message : "Failed to process the image. Please try again with better lighting.",
-        variant: "destructive",
-      });
+      const { retake, ...failure } = scanFailure(error);
+      toast({ ...failure, variant: "destructive" });
+      if (retake) retakePhoto();
     } finally {
+      scanAbortRef.current = null;
       setScanning(false);
+      setProgress(null);
     }
   };
 
+  const processImage = () => {
+    if (!images.front) return;
+    runScan({ front: images.front, back: images.back }, uploadSource, { qrCodes: liveCodesRef.current });
+  };
+
+  const cancelScan = () => scanAbortRef.current?.abort();
+
+  // Only Tesseract's recognition reports real progress; loading and server
+  // calls pulse instead
+  const determinate = (current: ScanProgress | null): current is ScanProgress =>
+    current?.stage === 'recognising' && current.progress !== null;
+
+  // Both sides share the bar: the front fills the first half when there is a back
+  const progressValue = (current: ScanProgress) => {
+    const sides = images.back ? 2 : 1;
+    const offset = current.side === 'back' ? 1 : 0;
+    return ((offset + (current.progress ?? 0)) / sides) * 100;
+  };
+
+  const progressLabel = (current: ScanProgress) => {
+    const side = images.back ? ` the ${current.side}` : '';
+    return current.stage === 'loading'
+      ? `${OCR_PROVIDER_LABELS[current.provider]}: loading...`
+      : `${OCR_PROVIDER_LABELS[current.provider]}: reading${side}...`;
+  };
+
   const retakePhoto = () => {
-    setCapturedImage(null);
+    setImages({ front: null, back: null });
+    liveCodesRef.current = [];
     setUploadSource('camera');
+    setCapturingSide('front');
+    startCamera();
+  };
+
+  const captureBack = () => {
+    setCapturingSide('back');
     startCamera();
   };
 
+  const cancelBack = () => {
+    stopCamera();
+    setCapturingSide(null);
+  };
+
+  const removeBack = () => {
+    setImages(prev => ({ ...prev, back: null }));
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <Card className="w-full max-w-md">
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Scan Business Card</CardTitle>
+            <CardTitle>{batch ? 'Batch Scan' : 'Scan Business Card'}</CardTitle>
             <Button variant="ghost" size="icon" onClick={onClose}>
               <X className="h-4 w-4" />
             </Button>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          {!capturedImage ? (
+          {pasting ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="pasted_text">Card or signature text</Label>
+                <Textarea
+                  id="pasted_text"
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  placeholder={'Jane Doe\nHead of Sales, Example Ltd\n+44 20 7946 0000\njane@example.com'}
+                  rows={8}
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground">
+                  Paste an e-mail signature or the text of a card, one item per line as it appears.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={parsePasted} disabled={!pastedText.trim()} className="flex-1">
+                  Read Text
+                </Button>
+                <Button variant="outline" onClick={cancelPasting}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : pending ? (
+            <div className="space-y-4">
+              <CornerAdjuster
+                image={pending.image}
+                corners={pending.corners}
+                onChange={(corners) => setPending(prev => (prev ? { ...prev, corners } : prev))}
+              />
+              <p className="text-sm text-muted-foreground">
+                {pending.detected
+                  ? 'Drag the corners if the outline does not match the card.'
+                  : 'Could not find the card edges. Drag the corners onto the card.'}
+              </p>
+              <div className="flex gap-2">
+                <Button onClick={applyCrop} disabled={cropping} className="flex-1">
+                  {cropping ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Crop className="h-4 w-4 mr-2" />
+                  )}
+                  Crop
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => acceptImage(pending.image, pending.source)}
+                  disabled={cropping}
+                >
+                  Use Full Photo
+                </Button>
+                <Button variant="ghost" onClick={discardPending} disabled={cropping}>
+                  Retake
+                </Button>
+              </div>
+            </div>
+          ) : capturingSide ? (
             <>
               <div className="space-y-4">
                 <div className="relative">
@@ -346,14 +562,26 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
                   {/* Card alignment guide overlay */}
                   {cameraActive && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                      <div className="w-4/5 h-3/5 border-2 border-primary rounded-lg opacity-60">
+                      {liveCode && (
+                        <div className="absolute top-2 left-2 flex items-center gap-1 bg-black/70 text-white px-2 py-1 rounded text-xs">
+                          <QrCode className="h-3 w-3" />
+                          {liveCode.name ? `QR code: ${liveCode.name}` : 'QR code found'}
+                        </div>
+                      )}
+                      <div className={cn(
+                        "w-4/5 h-3/5 border-2 rounded-lg transition-colors",
+                        autoCapture && frame.checking && !frame.issue ? "border-green-500 opacity-100" : "border-primary opacity-60"
+                      )}>
                         <div className="absolute -top-1 -left-1 w-4 h-4 border-l-2 border-t-2 border-primary"></div>
                         <div className="absolute -top-1 -right-1 w-4 h-4 border-r-2 border-t-2 border-primary"></div>
                         <div className="absolute -bottom-1 -left-1 w-4 h-4 border-l-2 border-b-2 border-primary"></div>
                         <div className="absolute -bottom-1 -right-1 w-4 h-4 border-r-2 border-b-2 border-primary"></div>
                       </div>
                       <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/70 text-white px-2 py-1 rounded text-sm">
-                        Align card within guide
+                        {autoCapture && frame.checking
+                          ? frame.waiting ? 'Captured. Swap in the next card'
+                            : frame.issue ? frameHints[frame.issue] : 'Hold it there...'
+                          : capturingSide === 'back' ? 'Align the back of the card' : 'Align card within guide'}
                       </div>
                     </div>
                   )}
@@ -369,6 +597,13 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
                 </div>
                 
                 <canvas ref={canvasRef} className="hidden" />
+
+                <div className="flex items-center gap-2">
+                  <Switch id="auto_capture" checked={autoCapture} onCheckedChange={setAutoCapture} />
+                  <Label htmlFor="auto_capture" className="text-sm font-normal">
+                    Capture automatically when the card is steady and in focus
+                  </Label>
+                </div>
                 
                 <div className="flex gap-2">
                   <Button 
@@ -387,45 +622,151 @@ const CardScanner = ({ onScanComplete, onClose }: CardScannerProps) => {
                     <Upload className="h-4 w-4 mr-2" />
                     Upload
                   </Button>
+                  {capturingSide !== 'back' && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => folderInputRef.current?.click()}
+                      aria-label="Import a folder"
+                      title="Import a folder"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {capturingSide === 'front' && !batch && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={startPasting}
+                      aria-label="Paste text"
+                      title="Paste text"
+                    >
+                      <ClipboardPaste className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {capturingSide === 'back' && (
+                    <Button variant="ghost" onClick={cancelBack}>
+                      Cancel
+                    </Button>
+                  )}
                 </div>
+
+                {batch && (
+                  <div className="flex items-center justify-between rounded-lg border px-3 py-2">
+                    <span className="text-sm text-muted-foreground">
+                      {batch.queued === 1 ? '1 card' : `${batch.queued} cards`} captured
+                    </span>
+                    <Button size="sm" onClick={batch.onReview} disabled={batch.queued === 0}>
+                      <ListChecks className="h-4 w-4 mr-2" />
+                      Review
+                    </Button>
+                  </div>
+                )}
               </div>
               
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
-                capture="environment"
+                accept="image/*,.zip,application/zip,.pdf,application/pdf"
+                multiple={capturingSide !== 'back'}
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+              <input
+                ref={folderInputRef}
+                type="file"
+                // Not in React's typings, but supported by all current browsers
+                {...{ webkitdirectory: '' }}
                 onChange={handleFileUpload}
                 className="hidden"
               />
             </>
           ) : (
             <div className="space-y-4">
-              <img 
-                src={capturedImage} 
-                alt="Captured business card" 
-                className="w-full rounded-lg"
-              />
+              {images.back ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {(['front', 'back'] as const).map(side => (
+                    <div key={side} className="space-y-1">
+                      <img
+                        src={images[side] ?? undefined}
+                        alt={`${side === 'front' ? 'Front' : 'Back'} of business card`}
+                        className="w-full rounded-lg"
+                      />
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>{side === 'front' ? 'Front' : 'Back'}</span>
+                        {side === 'back' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={removeBack}
+                            disabled={scanning}
+                            aria-label="Remove back side"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <img 
+                  src={images.front ?? undefined} 
+                  alt="Captured business card" 
+                  className="w-full rounded-lg"
+                />
+              )}
+
+              <div className="flex items-center gap-2">
+                <Label htmlFor="scan_language" className="shrink-0">Language</Label>
+                <Select value={language} onValueChange={setLanguage} disabled={scanning}>
+                  <SelectTrigger id="scan_language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_LANGUAGE}>Auto-detect</SelectItem>
+                    {OCR_LANGUAGES.map(({ code, label }) => (
+                      <SelectItem key={code} value={code}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               
-              <div className="flex gap-2">
-                <Button 
-                  onClick={processImage} 
-                  disabled={scanning}
-                  className="flex-1"
-                >
-                  {scanning ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    'Scan Card'
+              {scanning ? (
+                <div className="space-y-2">
+                  <Progress
+                    value={determinate(progress) ? progressValue(progress) : 100}
+                    className={cn("h-2", !determinate(progress) && "animate-pulse")}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    <span className="flex-1 text-sm text-muted-foreground">
+                      {progress ? progressLabel(progress) : 'Processing...'}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={cancelScan}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button onClick={processImage} className="flex-1">
+                    Scan Card
+                  </Button>
+                  {!images.back && (
+                    <Button variant="outline" onClick={captureBack}>
+                      <FlipHorizontal className="h-4 w-4 mr-2" />
+                      Add Back
+                    </Button>
                   )}
-                </Button>
-                <Button variant="outline" onClick={retakePhoto}>
-                  Retake
-                </Button>
-              </div>
+                  <Button variant="outline" onClick={retakePhoto}>
+                    Retake
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -1,76 +1,248 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { X, Save } from 'lucide-react';
+import { X, Save, Copy, GitMerge } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useTags } from '@/hooks/useTags';
+import { cn } from '@/lib/utils';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  PHONE_TYPES,
+  formatAddress,
+  normalisePhone,
+  splitAddress,
+  type CardField,
+  type PhoneEntry,
+  type PhoneType,
+  type PostalAddress,
+} from '@/lib/card-parser';
+import { PHONE_TYPE_LABELS, loadContacts, mergeIntoContact, saveContact, toContactDraft, type ContactData } from '@/lib/contacts';
+import { DUPLICATE_REASON_LABELS, findDuplicates, type DuplicateMatch } from '@/lib/duplicates';
+import { createTag, nextTagColor } from '@/lib/tags';
+import CardImageViewer from './CardImageViewer';
+import FieldSuggestions from './FieldSuggestions';
+import MultiValueInput, { type MultiValueEntry } from './MultiValueInput';
+import TagPicker from './TagPicker';
 
-interface ContactData {
-  id?: string;
-  name?: string;
-  phone?: string;
-  email?: string;
-  company?: string;
-  job_title?: string;
-  website?: string;
-  location?: string;
-  raw_text?: string;
-  source?: 'camera' | 'upload';
-  confidence?: number;
-}
+const invalidPhoneMessage = 'Not a valid number. Add the country code if it is from another region.';
+
+const validatePhones = (phones: PhoneEntry[], region?: string | null) =>
+  phones.map(phone =>
+    phone.number.trim() && !normalisePhone(phone.number, region).valid ? invalidPhoneMessage : undefined
+  );
+
+const phoneTypeOptions = PHONE_TYPES.map(type => ({ value: type, label: PHONE_TYPE_LABELS[type] }));
+
+const addressParts: { part: keyof PostalAddress; label: string }[] = [
+  { part: 'city', label: 'City' },
+  { part: 'region', label: 'State / Region' },
+  { part: 'postal_code', label: 'Postal code' },
+  { part: 'country', label: 'Country' },
+];
+
+// Moves a value to the front of its list (or replaces the primary entry), so
+// the single-value column and the first list entry stay in sync
+const promoteValue = (data: ContactData, field: CardField, value: string): ContactData => {
+  if (field === 'phone') {
+    const phones = data.phones ?? [];
+    const existing = phones.find(phone => phone.number === value);
+    return {
+      ...data,
+      phones: existing
+        ? [existing, ...phones.filter(phone => phone !== existing)]
+        : [{ type: phones[0]?.type ?? 'other', number: value }, ...phones.slice(1)],
+    };
+  }
+
+  if (field === 'email' || field === 'website') {
+    const listField = field === 'email' ? 'emails' : 'websites';
+    const values = data[listField] ?? [];
+    return {
+      ...data,
+      [listField]: values.includes(value)
+        ? [value, ...values.filter(item => item !== value)]
+        : [value, ...values.slice(1)],
+    };
+  }
+
+  return data;
+};
 
 interface ContactFormProps {
   initialData?: ContactData;
   onSave: () => void;
   onClose: () => void;
+  // Hands the edited contact back instead of saving it, e.g. to a batch review
+  onApply?: (data: ContactData) => void;
 }
 
-const ContactForm = ({ initialData, onSave, onClose }: ContactFormProps) => {
-  const [formData, setFormData] = useState<ContactData>(initialData || {});
-  const [saving, setSaving] = useState(false);
+const ContactForm = ({ initialData, onSave, onClose, onApply }: ContactFormProps) => {
   const { user } = useAuth();
+  const { defaultRegion } = useProfile();
+  const { tags, refetch: refetchTags } = useTags();
+  const [formData, setFormData] = useState<ContactData>(
+    toContactDraft(initialData || {}, defaultRegion)
+  );
+  const [saving, setSaving] = useState(false);
+  const [reviewedFields, setReviewedFields] = useState<Set<CardField>>(new Set());
+  const [phoneErrors, setPhoneErrors] = useState<(string | undefined)[]>([]);
+  // Saved contacts that look like this one, as of the last save attempt;
+  // null until checked
+  const [duplicates, setDuplicates] = useState<DuplicateMatch<ContactData & { id: string }>[] | null>(null);
   const { toast } = useToast();
 
+  // The contact the form was last filled from, and the numbers as they are now
+  const seededFrom = useRef(initialData);
+  const phonesRef = useRef(formData.phones);
+  phonesRef.current = formData.phones;
+
+  // Refills the form for a new contact. The profile's region often loads after
+  // the form opens; that only re-checks the numbers, so nothing typed is lost.
   useEffect(() => {
-    if (initialData) {
-      setFormData(initialData);
+    if (initialData && initialData !== seededFrom.current) {
+      seededFrom.current = initialData;
+      const draft = toContactDraft(initialData, defaultRegion);
+      setFormData(draft);
+      setReviewedFields(new Set());
+      setPhoneErrors(validatePhones(draft.phones ?? [], defaultRegion));
+    } else {
+      setPhoneErrors(validatePhones(phonesRef.current ?? [], defaultRegion));
     }
-  }, [initialData]);
+  }, [initialData, defaultRegion]);
 
-  const handleInputChange = (field: keyof ContactData, value: string) => {
+  // A warning only holds for the values it was checked against
+  useEffect(() => {
+    setDuplicates(null);
+  }, [formData.name, formData.company, formData.phones, formData.emails]);
+
+  const handleInputChange = (field: CardField, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setReviewedFields(prev => new Set(prev).add(field));
+  };
+
+  const handlePhonesChange = (entries: MultiValueEntry[]) => {
+    const phones = entries.map(entry => ({ type: (entry.type ?? 'other') as PhoneType, number: entry.value }));
+    setPhoneErrors(prev =>
+      phones.map((phone, index) => (phone.number === formData.phones?.[index]?.number ? prev[index] : undefined))
+    );
+    setFormData(prev => ({ ...prev, phones, phone: phones[0]?.number }));
+    setReviewedFields(prev => new Set(prev).add('phone'));
+  };
+
+  // Reformats a number once the user leaves the field, or flags it as invalid
+  const handlePhoneBlur = (index: number) => {
+    const phone = formData.phones?.[index];
+    if (!phone?.number.trim()) return;
+
+    const normalised = normalisePhone(phone.number, defaultRegion);
+    setPhoneErrors(prev => {
+      const next = [...prev];
+      next[index] = normalised.valid ? undefined : invalidPhoneMessage;
+      return next;
+    });
+    if (!normalised.valid) return;
+
+    setFormData(prev => {
+      const phones = (prev.phones ?? []).map((entry, i) =>
+        i === index ? { ...entry, number: normalised.number, e164: normalised.e164 } : entry
+      );
+      return { ...prev, phones, phone: phones[0]?.number };
+    });
   };
 
-  const handleSave = async () => {
+  const handleValueListChange = (field: 'email' | 'website', entries: MultiValueEntry[]) => {
+    const values = entries.map(entry => entry.value);
+    const listField = field === 'email' ? 'emails' : 'websites';
+    setFormData(prev => ({ ...prev, [listField]: values, [field]: values[0] }));
+    setReviewedFields(prev => new Set(prev).add(field));
+  };
+
+  // Editing a part rebuilds the single-line address from the parts
+  const handleAddressChange = (part: keyof PostalAddress, value: string) => {
+    setFormData(prev => {
+      const address = { ...prev.address, [part]: value };
+      return { ...prev, address, location: formatAddress(address) };
+    });
+    setReviewedFields(prev => new Set(prev).add('location'));
+  };
+
+  // Swap in a runner-up reading, keeping the replaced value as an alternative
+  const handleSelectAlternative = (field: CardField, value: string) => {
+    setFormData(prev => {
+      const score = prev.field_scores?.[field];
+      const promoted = field === 'location'
+        ? { ...prev, address: splitAddress([value], defaultRegion) }
+        : promoteValue(prev, field, value);
+      if (!score) return { ...promoted, [field]: value };
+
+      const selected = score.alternatives.find(alternative => alternative.value === value);
+      const alternatives = score.alternatives.filter(alternative => alternative.value !== value);
+      if (prev[field]) {
+        alternatives.unshift({ value: prev[field] as string, confidence: score.confidence });
+      }
+
+      return {
+        ...promoted,
+        [field]: value,
+        field_scores: {
+          ...prev.field_scores,
+          [field]: { confidence: selected?.confidence ?? score.confidence, alternatives },
+        },
+      };
+    });
+    setReviewedFields(prev => new Set(prev).add(field));
+  };
+
+  const needsReview = (field: CardField) => {
+    const score = formData.field_scores?.[field];
+    return !!score && !reviewedFields.has(field) && score.confidence < LOW_CONFIDENCE_THRESHOLD;
+  };
+
+  const reviewClass = (field: CardField) =>
+    cn(needsReview(field) && 'border-amber-500 focus-visible:ring-amber-500');
+
+  const renderLabel = (field: CardField, label: string) => (
+    <Label htmlFor={field} className="flex items-center justify-between">
+      {label}
+      {needsReview(field) && (
+        <span className="text-xs font-normal text-amber-600">
+          Please check ({Math.round((formData.field_scores?.[field]?.confidence ?? 0) * 100)}% sure)
+        </span>
+      )}
+    </Label>
+  );
+
+  // New contacts are checked against the address book first; the user can
+  // then merge into a match or save anyway
+  const checkDuplicates = async (userId: string) => {
+    try {
+      const matches = findDuplicates(formData, await loadContacts(userId, defaultRegion), defaultRegion);
+      setDuplicates(matches);
+      return matches.length > 0;
+    } catch (error) {
+      console.error('Duplicate check error:', error);
+      return false;
+    }
+  };
+
+  const handleSave = async (force = false) => {
+    if (onApply) {
+      onApply(formData);
+      return;
+    }
     if (!user) return;
     
     setSaving(true);
     try {
-      const contactData = {
-        ...formData,
-        user_id: user.id,
-      };
-
-      if (formData.id) {
-        // Update existing contact
-        const { error } = await supabase
-          .from('contacts')
-          .update(contactData)
-          .eq('id', formData.id);
-
-        if (error) throw error;
-      } else {
-        // Create new contact
-        const { error } = await supabase
-          .from('contacts')
-          .insert([contactData]);
-
-        if (error) throw error;
+      if (!formData.id && !force && await checkDuplicates(user.id)) {
+        return;
       }
+      await saveContact(user.id, formData, defaultRegion);
 
       toast({
         title: "Success",
@@ -89,13 +261,54 @@ const ContactForm = ({ initialData, onSave, onClose }: ContactFormProps) => {
     }
   };
 
+  const handleCreateTag = async (name: string) => {
+    if (!user) return null;
+
+    try {
+      const tag = await createTag(user.id, name, nextTagColor(tags));
+      await refetchTags();
+      return tag;
+    } catch (error) {
+      console.error('Create tag error:', error);
+      toast({
+        title: "Error",
+        description: `Couldn't create the tag "${name}". It may already exist.`,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handleMerge = async (existing: ContactData & { id: string }) => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await mergeIntoContact(user.id, existing, formData, defaultRegion);
+      toast({
+        title: "Success",
+        description: `Card added to ${existing.name || 'the existing contact'}.`,
+      });
+      onSave();
+    } catch (error) {
+      console.error('Merge error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge the contacts. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>
-              {formData.id ? 'Edit Contact' : 'Save Contact'}
+              {onApply ? 'Review Card' : formData.id ? 'Edit Contact' : 'Save Contact'}
             </CardTitle>
             <Button variant="ghost" size="icon" onClick={onClose}>
               <X className="h-4 w-4" />
@@ -103,92 +316,210 @@ const ContactForm = ({ initialData, onSave, onClose }: ContactFormProps) => {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          <CardImageViewer front={formData.image_url} back={formData.back_image_url} />
+
           <div className="space-y-2">
-            <Label htmlFor="name">Full Name</Label>
-            <Input
-              id="name"
-              value={formData.name || ''}
-              onChange={(e) => handleInputChange('name', e.target.value)}
-              placeholder="Enter full name"
-            />
+            {renderLabel('name', 'Full Name')}
+            <div className="flex gap-2">
+              <Input
+                id="name"
+                value={formData.name || ''}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="Enter full name"
+                className={reviewClass('name')}
+              />
+              <FieldSuggestions
+                score={formData.field_scores?.name}
+                onSelect={(value) => handleSelectAlternative('name', value)}
+              />
+            </div>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
-            <Input
+            {renderLabel('email', 'Email')}
+            <MultiValueInput
               id="email"
-              type="email"
-              value={formData.email || ''}
-              onChange={(e) => handleInputChange('email', e.target.value)}
+              inputType="email"
+              entries={(formData.emails ?? []).map(value => ({ value }))}
+              onChange={(entries) => handleValueListChange('email', entries)}
               placeholder="Enter email address"
+              addLabel="Add email"
+              primaryClassName={reviewClass('email')}
+              primaryAddon={
+                <FieldSuggestions
+                  score={formData.field_scores?.email}
+                  onSelect={(value) => handleSelectAlternative('email', value)}
+                />
+              }
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="phone">Phone</Label>
-            <Input
+            {renderLabel('phone', 'Phone')}
+            <MultiValueInput
               id="phone"
-              value={formData.phone || ''}
-              onChange={(e) => handleInputChange('phone', e.target.value)}
+              entries={(formData.phones ?? []).map(phone => ({ value: phone.number, type: phone.type }))}
+              onChange={handlePhonesChange}
+              onRowBlur={handlePhoneBlur}
+              rowErrors={phoneErrors}
               placeholder="Enter phone number"
+              addLabel="Add phone"
+              typeOptions={phoneTypeOptions}
+              primaryClassName={reviewClass('phone')}
+              primaryAddon={
+                <FieldSuggestions
+                  score={formData.field_scores?.phone}
+                  onSelect={(value) => handleSelectAlternative('phone', value)}
+                />
+              }
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="company">Company</Label>
-            <Input
-              id="company"
-              value={formData.company || ''}
-              onChange={(e) => handleInputChange('company', e.target.value)}
-              placeholder="Enter company name"
-            />
+            {renderLabel('company', 'Company')}
+            <div className="flex gap-2">
+              <Input
+                id="company"
+                value={formData.company || ''}
+                onChange={(e) => handleInputChange('company', e.target.value)}
+                placeholder="Enter company name"
+                className={reviewClass('company')}
+              />
+              <FieldSuggestions
+                score={formData.field_scores?.company}
+                onSelect={(value) => handleSelectAlternative('company', value)}
+              />
+            </div>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="job_title">Job Title</Label>
-            <Input
-              id="job_title"
-              value={formData.job_title || ''}
-              onChange={(e) => handleInputChange('job_title', e.target.value)}
-              placeholder="Enter job title"
-            />
+            {renderLabel('job_title', 'Job Title')}
+            <div className="flex gap-2">
+              <Input
+                id="job_title"
+                value={formData.job_title || ''}
+                onChange={(e) => handleInputChange('job_title', e.target.value)}
+                placeholder="Enter job title"
+                className={reviewClass('job_title')}
+              />
+              <FieldSuggestions
+                score={formData.field_scores?.job_title}
+                onSelect={(value) => handleSelectAlternative('job_title', value)}
+              />
+            </div>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="website">Website</Label>
-            <Input
+            {renderLabel('website', 'Website')}
+            <MultiValueInput
               id="website"
-              value={formData.website || ''}
-              onChange={(e) => handleInputChange('website', e.target.value)}
+              entries={(formData.websites ?? []).map(value => ({ value }))}
+              onChange={(entries) => handleValueListChange('website', entries)}
               placeholder="Enter website URL"
+              addLabel="Add website"
+              primaryClassName={reviewClass('website')}
+              primaryAddon={
+                <FieldSuggestions
+                  score={formData.field_scores?.website}
+                  onSelect={(value) => handleSelectAlternative('website', value)}
+                />
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            {renderLabel('location', 'Address')}
+            <div className="flex gap-2">
+              <Textarea
+                id="location"
+                value={formData.address?.street || ''}
+                onChange={(e) => handleAddressChange('street', e.target.value)}
+                placeholder="Street address"
+                aria-label="Street address"
+                rows={2}
+                className={reviewClass('location')}
+              />
+              <FieldSuggestions
+                score={formData.field_scores?.location}
+                onSelect={(value) => handleSelectAlternative('location', value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {addressParts.map(({ part, label }) => (
+                <Input
+                  key={part}
+                  id={`address_${part}`}
+                  value={formData.address?.[part] || ''}
+                  onChange={(e) => handleAddressChange(part, e.target.value)}
+                  placeholder={label}
+                  aria-label={label}
+                  className={reviewClass('location')}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagPicker
+              tags={tags}
+              value={formData.tag_ids ?? []}
+              onChange={(tagIds) => setFormData(prev => ({ ...prev, tag_ids: tagIds }))}
+              onCreate={handleCreateTag}
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="location">Location</Label>
+            <Label htmlFor="notes">Notes</Label>
             <Textarea
-              id="location"
-              value={formData.location || ''}
-              onChange={(e) => handleInputChange('location', e.target.value)}
-              placeholder="Enter address or location"
-              rows={2}
+              id="notes"
+              value={formData.notes || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="Where you met, what you talked about..."
+              rows={3}
             />
           </div>
 
-          <Button 
-            onClick={handleSave} 
-            disabled={saving}
-            className="w-full"
-          >
-            {saving ? (
-              'Saving...'
-            ) : (
-              <>
-                <Save className="h-4 w-4 mr-2" />
-                {formData.id ? 'Update Contact' : 'Save Contact'}
-              </>
-            )}
-          </Button>
+          {duplicates?.length ? (
+            <div className="space-y-3 rounded-lg border border-amber-500 p-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-amber-600">
+                <Copy className="h-4 w-4" />
+                {duplicates.length === 1 ? 'This may already be in your contacts' : 'These contacts look similar'}
+              </div>
+              {duplicates.slice(0, 3).map(({ contact, reasons }) => (
+                <div key={contact.id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium truncate">{contact.name || 'Unnamed Contact'}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[contact.company, ...reasons.map(reason => DUPLICATE_REASON_LABELS[reason])].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleMerge(contact)} disabled={saving}>
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge
+                  </Button>
+                </div>
+              ))}
+              <Button variant="secondary" onClick={() => handleSave(true)} disabled={saving} className="w-full">
+                {saving ? 'Saving...' : 'Save as New Contact'}
+              </Button>
+            </div>
+          ) : (
+            <Button 
+              onClick={() => handleSave()} 
+              disabled={saving}
+              className="w-full"
+            >
+              {saving ? (
+                'Saving...'
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  {onApply ? 'Apply Changes' : formData.id ? 'Update Contact' : 'Save Contact'}
+                </>
+              )}
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,12 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, Edit, Trash2, Mail, Phone, Building2, MapPin, Globe } from 'lucide-react';
+import { Search, Edit, Trash2, Mail, Phone, Building2, MapPin, Globe, CreditCard } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { PHONE_TYPE_LABELS } from '@/lib/contacts';
+import { removeCardImages } from '@/lib/card-images';
+import { useCardImageUrls } from '@/hooks/useCardImageUrls';
+import { useTags } from '@/hooks/useTags';
+import { cn } from '@/lib/utils';
+import type { PhoneEntry } from '@/lib/card-parser';
 import ContactForm from './ContactForm';
+import TagChip from './TagChip';
 
 interface Contact {
   id: string;
@@ -17,10 +24,26 @@ interface Contact {
   job_title?: string;
   website?: string;
   location?: string;
+  phones?: PhoneEntry[];
+  emails?: string[];
+  websites?: string[];
   raw_text?: string;
+  notes?: string;
+  tag_ids: string[];
+  image_url?: string | null;
+  back_image_url?: string | null;
   created_at: string;
 }
 
+const emailsOf = (contact: Contact) =>
+  contact.emails?.length ? contact.emails : contact.email ? [contact.email] : [];
+
+const phonesOf = (contact: Contact): PhoneEntry[] =>
+  contact.phones?.length ? contact.phones : contact.phone ? [{ type: 'other', number: contact.phone }] : [];
+
+const websitesOf = (contact: Contact) =>
+  contact.websites?.length ? contact.websites : contact.website ? [contact.website] : [];
+
 interface ContactListProps {
   refreshTrigger: number;
 }
@@ -29,25 +52,32 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  // Shows contacts carrying any of these tags; all contacts when empty
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { tags, refetch: refetchTags } = useTags();
+  const imageUrlFor = useCardImageUrls(contacts.map(contact => contact.image_url));
 
-  const fetchContacts = async () => {
+  const fetchContacts = useCallback(async () => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('contacts')
-        .select('*')
+        .select('*, contact_tags(tag_id)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       
-      setContacts(data || []);
-      setFilteredContacts(data || []);
+      const rows = (data || []).map(({ contact_tags, ...row }) => ({
+        ...row,
+        tag_ids: contact_tags.map(link => link.tag_id),
+      })) as unknown as Contact[];
+      setContacts(rows);
     } catch (error) {
       toast({
         title: "Error",
@@ -57,27 +87,40 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, toast]);
 
   useEffect(() => {
     fetchContacts();
-  }, [user, refreshTrigger]);
+    // A scan saved elsewhere may have created tags
+    refetchTags();
+  }, [fetchContacts, refetchTags, refreshTrigger]);
 
   useEffect(() => {
+    const tagged = tagFilter.length
+      ? contacts.filter(contact => contact.tag_ids.some(id => tagFilter.includes(id)))
+      : contacts;
     if (!searchTerm) {
-      setFilteredContacts(contacts);
+      setFilteredContacts(tagged);
     } else {
-      const filtered = contacts.filter(contact =>
+      const filtered = tagged.filter(contact =>
         (contact.name?.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (contact.email?.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        emailsOf(contact).some(email => email.toLowerCase().includes(searchTerm.toLowerCase())) ||
         (contact.company?.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (contact.phone?.includes(searchTerm))
+        phonesOf(contact).some(phone =>
+          phone.number.includes(searchTerm) ||
+          (!!phone.e164 && /\d/.test(searchTerm) && phone.e164.includes(searchTerm.replace(/[^\d+]/g, '')))
+        )
       );
       setFilteredContacts(filtered);
     }
-  }, [searchTerm, contacts]);
+  }, [searchTerm, tagFilter, contacts]);
+
+  const toggleTagFilter = (tagId: string) => {
+    setTagFilter(prev => (prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]));
+  };
 
   const handleDelete = async (id: string) => {
+    const contact = contacts.find(item => item.id === id);
     try {
       const { error } = await supabase
         .from('contacts')
@@ -86,6 +129,7 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
 
       if (error) throw error;
 
+      await removeCardImages([contact?.image_url, contact?.back_image_url]);
       setContacts(prev => prev.filter(contact => contact.id !== id));
       toast({
         title: "Success",
@@ -128,11 +172,29 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
           />
         </div>
 
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTagFilter(tag.id)}
+                aria-pressed={tagFilter.includes(tag.id)}
+              >
+                <TagChip
+                  tag={tag}
+                  className={cn(tagFilter.length && !tagFilter.includes(tag.id) && 'opacity-40')}
+                />
+              </button>
+            ))}
+          </div>
+        )}
+
         {filteredContacts.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <p className="text-muted-foreground">
-                {searchTerm ? 'No contacts found matching your search.' : 'No contacts saved yet.'}
+                {searchTerm || tagFilter.length ? 'No contacts found matching your search.' : 'No contacts saved yet.'}
               </p>
             </CardContent>
           </Card>
@@ -142,6 +204,20 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
               <Card key={contact.id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-4">
                   <div className="flex items-start justify-between">
+                    {contact.image_url && (
+                      <div className="mr-4 h-14 w-24 shrink-0 overflow-hidden rounded-md border bg-muted flex items-center justify-center">
+                        {imageUrlFor(contact.image_url) ? (
+                          <img
+                            src={imageUrlFor(contact.image_url)}
+                            alt={`Business card of ${contact.name || 'contact'}`}
+                            className="h-full w-full object-cover"
+                            loading="lazy"
+                          />
+                        ) : (
+                          <CreditCard className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2 flex-1">
                       <div>
                         <h3 className="font-semibold text-lg">
@@ -153,34 +229,47 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
                           </p>
                         )}
                       </div>
+
+                      {contact.tag_ids.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {tags
+                            .filter(tag => contact.tag_ids.includes(tag.id))
+                            .map(tag => <TagChip key={tag.id} tag={tag} />)}
+                        </div>
+                      )}
                       
                       <div className="space-y-1">
-                        {contact.email && (
-                          <div className="flex items-center gap-2 text-sm">
+                        {emailsOf(contact).map((email) => (
+                          <div key={email} className="flex items-center gap-2 text-sm">
                             <Mail className="h-4 w-4 text-muted-foreground" />
-                            <span>{contact.email}</span>
+                            <span>{email}</span>
                           </div>
-                        )}
-                        {contact.phone && (
-                          <div className="flex items-center gap-2 text-sm">
+                        ))}
+                        {phonesOf(contact).map((phone) => (
+                          <div key={`${phone.type}-${phone.number}`} className="flex items-center gap-2 text-sm">
                             <Phone className="h-4 w-4 text-muted-foreground" />
-                            <span>{contact.phone}</span>
+                            <span>{phone.number}</span>
+                            {phone.type !== 'other' && (
+                              <span className="text-xs text-muted-foreground">
+                                {PHONE_TYPE_LABELS[phone.type]}
+                              </span>
+                            )}
                           </div>
-                        )}
+                        ))}
                         {contact.company && !contact.job_title && (
                           <div className="flex items-center gap-2 text-sm">
                             <Building2 className="h-4 w-4 text-muted-foreground" />
                             <span>{contact.company}</span>
                           </div>
                         )}
-                        {contact.website && (
-                          <div className="flex items-center gap-2 text-sm">
+                        {websitesOf(contact).map((website) => (
+                          <div key={website} className="flex items-center gap-2 text-sm">
                             <Globe className="h-4 w-4 text-muted-foreground" />
                             <span className="text-primary hover:underline cursor-pointer">
-                              {contact.website}
+                              {website}
                             </span>
                           </div>
-                        )}
+                        ))}
                         {contact.location && (
                           <div className="flex items-center gap-2 text-sm">
                             <MapPin className="h-4 w-4 text-muted-foreground" />
@@ -220,6 +309,7 @@ const ContactList = ({ refreshTrigger }: ContactListProps) => {
           onSave={() => {
             setEditingContact(null);
             fetchContacts();
+            refetchTags();
           }}
           onClose={() => setEditingContact(null)}
         />
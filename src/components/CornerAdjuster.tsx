@@ -0,0 +1,73 @@
+import { useRef, useState } from 'react';
+import type { Point, Quad } from '@/lib/card-image';
+
+interface CornerAdjusterProps {
+  image: string;
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// The photo with the card outline drawn over it; each corner can be dragged
+// with a mouse or a finger
+const CornerAdjuster = ({ image, corners, onChange }: CornerAdjusterProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const pointFromEvent = (event: React.PointerEvent): Point | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging === null) return;
+    const point = pointFromEvent(event);
+    if (!point) return;
+    onChange(corners.map((corner, index) => (index === dragging ? point : corner)) as Quad);
+  };
+
+  const outline = corners.map(({ x, y }) => `${x},${y}`).join(' ');
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+    >
+      <img src={image} alt="Captured business card" className="w-full rounded-lg" draggable={false} />
+      <svg
+        className="absolute inset-0 h-full w-full pointer-events-none"
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+      >
+        <polygon
+          points={outline}
+          className="fill-primary/10 stroke-primary"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {corners.map((corner, index) => (
+        <div
+          key={index}
+          aria-label={`${['Top left', 'Top right', 'Bottom right', 'Bottom left'][index]} corner`}
+          className="absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 cursor-grab rounded-full border-2 border-primary bg-background/80 active:cursor-grabbing"
+          style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            setDragging(index);
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CornerAdjuster;
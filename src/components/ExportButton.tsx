@@ -4,6 +4,8 @@ import { Download } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { formatPhoneList } from '@/lib/contacts';
+import type { PhoneEntry } from '@/lib/card-parser';
 import * as XLSX from 'xlsx';
 
 const ExportButton = () => {
@@ -18,7 +20,7 @@ const ExportButton = () => {
     try {
       const { data: contacts, error } = await supabase
         .from('contacts')
-        .select('*')
+        .select('*, contact_tags(tags(name))')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -34,16 +36,25 @@ const ExportButton = () => {
       }
 
       // Prepare data for Excel
-      const excelData = contacts.map(contact => ({
-        'Name': contact.name || '',
-        'Email': contact.email || '',
-        'Phone': contact.phone || '',
-        'Company': contact.company || '',
-        'Job Title': contact.job_title || '',
-        'Website': contact.website || '',
-        'Location': contact.location || '',
-        'Date Added': new Date(contact.created_at).toLocaleDateString()
-      }));
+      const excelData = contacts.map(contact => {
+        const phones = contact.phones as PhoneEntry[];
+        return {
+          'Name': contact.name || '',
+          'Email': contact.emails?.length ? contact.emails.join('; ') : contact.email || '',
+          'Phone': phones?.length ? formatPhoneList(phones) : contact.phone || '',
+          'Company': contact.company || '',
+          'Job Title': contact.job_title || '',
+          'Website': contact.websites?.length ? contact.websites.join('; ') : contact.website || '',
+          'Location': contact.location || '',
+          'City': contact.address_city || '',
+          'Region': contact.address_region || '',
+          'Postal Code': contact.address_postal_code || '',
+          'Country': contact.address_country || '',
+          'Tags': contact.contact_tags.map(link => link.tags?.name).filter(Boolean).join('; '),
+          'Notes': contact.notes || '',
+          'Date Added': new Date(contact.created_at).toLocaleDateString()
+        };
+      });
 
       // Create workbook and worksheet
       const wb = XLSX.utils.book_new();
@@ -53,11 +64,15 @@ const ExportButton = () => {
       const colWidths = [
         { wch: 20 }, // Name
         { wch: 30 }, // Email
-        { wch: 15 }, // Phone
+        { wch: 30 }, // Phone
         { wch: 25 }, // Company
         { wch: 20 }, // Job Title
         { wch: 30 }, // Website
         { wch: 40 }, // Location
+        { wch: 20 }, // City
+        { wch: 15 }, // Region
+        { wch: 12 }, // Postal Code
+        { wch: 20 }, // Country
         { wch: 12 }  // Date Added
       ];
       ws['!cols'] = colWidths;
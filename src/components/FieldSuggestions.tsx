@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronDown } from 'lucide-react';
+import type { FieldScore } from '@/lib/card-parser';
+
+interface FieldSuggestionsProps {
+  score?: FieldScore;
+  onSelect: (value: string) => void;
+}
+
+const FieldSuggestions = ({ score, onSelect }: FieldSuggestionsProps) => {
+  if (!score || score.alternatives.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="shrink-0" aria-label="Other suggestions">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-w-xs">
+        <DropdownMenuLabel>Other readings</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {score.alternatives.map((alternative) => (
+          <DropdownMenuItem
+            key={alternative.value}
+            onSelect={() => onSelect(alternative.value)}
+            className="flex justify-between gap-4"
+          >
+            <span className="truncate">{alternative.value}</span>
+            <span className="text-xs text-muted-foreground">
+              {Math.round(alternative.confidence * 100)}%
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default FieldSuggestions;
@@ -0,0 +1,113 @@
+import type { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface MultiValueEntry {
+  value: string;
+  type?: string;
+}
+
+interface MultiValueInputProps {
+  id: string;
+  entries: MultiValueEntry[];
+  onChange: (entries: MultiValueEntry[]) => void;
+  placeholder: string;
+  addLabel: string;
+  inputType?: string;
+  typeOptions?: { value: string; label: string }[];
+  onRowBlur?: (index: number) => void;
+  rowErrors?: (string | undefined)[];
+  // Applied to the first (primary) row only
+  primaryClassName?: string;
+  primaryAddon?: ReactNode;
+}
+
+const MultiValueInput = ({
+  id,
+  entries,
+  onChange,
+  placeholder,
+  addLabel,
+  inputType = 'text',
+  typeOptions,
+  onRowBlur,
+  rowErrors,
+  primaryClassName,
+  primaryAddon,
+}: MultiValueInputProps) => {
+  // Always render at least one row so the field looks like a normal input
+  const rows = entries.length > 0 ? entries : [{ value: '', type: typeOptions?.[0]?.value }];
+
+  const updateRow = (index: number, patch: Partial<MultiValueEntry>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    onChange([...rows, { value: '', type: typeOptions?.[typeOptions.length - 1]?.value }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex gap-2">
+            {typeOptions && (
+              <Select value={row.type} onValueChange={(type) => updateRow(index, { type })}>
+                <SelectTrigger className="w-28 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {typeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              id={index === 0 ? id : `${id}-${index}`}
+              type={inputType}
+              value={row.value}
+              onChange={(e) => updateRow(index, { value: e.target.value })}
+              onBlur={() => onRowBlur?.(index)}
+              placeholder={placeholder}
+              className={cn(
+                index === 0 && primaryClassName,
+                rowErrors?.[index] && 'border-destructive focus-visible:ring-destructive'
+              )}
+            />
+            {index === 0 && primaryAddon}
+            {rows.length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0"
+                onClick={() => removeRow(index)}
+                aria-label="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {rowErrors?.[index] && (
+            <p className="text-xs text-destructive">{rowErrors[index]}</p>
+          )}
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" onClick={addRow} className="h-8 px-2 text-muted-foreground">
+        <Plus className="h-4 w-4 mr-1" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default MultiValueInput;
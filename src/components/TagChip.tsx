@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import { TAG_COLOR_CLASSES, type Tag } from '@/lib/tags';
+
+interface TagChipProps {
+  tag: Tag;
+  children?: ReactNode;
+  className?: string;
+}
+
+const TagChip = ({ tag, children, className }: TagChipProps) => (
+  <span
+    className={cn(
+      'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium',
+      TAG_COLOR_CLASSES[tag.color],
+      className
+    )}
+  >
+    {tag.name}
+    {children}
+  </span>
+);
+
+export default TagChip;
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTags } from '@/hooks/useTags';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  TAG_COLORS,
+  TAG_SWATCH_CLASSES,
+  createTag,
+  deleteTag,
+  nextTagColor,
+  updateTag,
+  type Tag,
+  type TagColor,
+} from '@/lib/tags';
+import TagChip from './TagChip';
+
+// Tag names and colours, saved as they are changed
+const TagManager = () => {
+  const { user } = useAuth();
+  const { tags, refetch } = useTags();
+  const [newName, setNewName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Tag error:', error);
+      toast({ title: "Error", description: failure, variant: "destructive" });
+    }
+    await refetch();
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!user || !name) return;
+
+    await run(() => createTag(user.id, name, nextTagColor(tags)), `Couldn't create the tag "${name}". It may already exist.`);
+    setNewName('');
+  };
+
+  const handleRename = (tag: Tag) => {
+    const name = names[tag.id]?.trim();
+    setNames(prev => {
+      const { [tag.id]: _edited, ...rest } = prev;
+      return rest;
+    });
+    if (!name || name === tag.name) return;
+    run(() => updateTag(tag.id, { name }), `Couldn't rename the tag to "${name}". It may already exist.`);
+  };
+
+  const handleColor = (tag: Tag, color: TagColor) => {
+    run(() => updateTag(tag.id, { color }), 'Failed to change the tag colour.');
+  };
+
+  const handleDelete = (tag: Tag) => {
+    run(() => deleteTag(tag.id), 'Failed to delete the tag.');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>
+          Labels for sorting contacts, such as lead, partner or speaker. Deleting a tag takes it off every contact.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tags.map(tag => (
+          <div key={tag.id} className="space-y-2 rounded-md border p-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={names[tag.id] ?? tag.name}
+                onChange={(e) => setNames(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                onBlur={() => handleRename(tag)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="h-8"
+                aria-label="Tag name"
+              />
+              <TagChip tag={tag} className="shrink-0" />
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => handleDelete(tag)} aria-label={`Delete ${tag.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {TAG_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => handleColor(tag, color)}
+                  className={cn(
+                    'h-5 w-5 rounded-full',
+                    TAG_SWATCH_CLASSES[color],
+                    tag.color === color && 'ring-2 ring-offset-2 ring-ring'
+                  )}
+                  aria-label={color}
+                  aria-pressed={tag.color === color}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="New tag"
+            aria-label="New tag name"
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagManager;
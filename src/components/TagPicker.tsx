@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, Plus, Tag as TagIcon, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Tag } from '@/lib/tags';
+import TagChip from './TagChip';
+
+interface TagPickerProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  // Creates a tag from the search text; resolves to null if that failed
+  onCreate: (name: string) => Promise<Tag | null>;
+}
+
+// The contact's tags as chips, with a searchable list to add more
+const TagPicker = ({ tags, value, onChange, onCreate }: TagPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [creating, setCreating] = useState(false);
+  const selected = value
+    .map(id => tags.find(tag => tag.id === id))
+    .filter((tag): tag is Tag => !!tag);
+  const name = search.trim();
+  const exists = tags.some(tag => tag.name.toLowerCase() === name.toLowerCase());
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const tag = await onCreate(name);
+    setCreating(false);
+    if (tag) {
+      onChange([...value, tag.id]);
+      setSearch('');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(tag => (
+        <TagChip key={tag.id} tag={tag}>
+          <button type="button" onClick={() => toggle(tag.id)} aria-label={`Remove ${tag.name}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </TagChip>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7">
+            <TagIcon className="h-3 w-3 mr-1" />
+            Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Find or create a tag" value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{name ? 'No matching tag.' : 'No tags yet.'}</CommandEmpty>
+              <CommandGroup>
+                {tags.map(tag => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                    <Check className={cn('h-4 w-4 mr-2', value.includes(tag.id) ? 'opacity-100' : 'opacity-0')} />
+                    <TagChip tag={tag} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            {name && !exists && (
+              <div className="border-t p-1">
+                <Button variant="ghost" size="sm" className="w-full justify-start" onClick={handleCreate} disabled={creating}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create "{name}"
+                </Button>
+              </div>
+            )}
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { analyseFrame, decodeVideoQrCode, frameIssue, type FrameIssue } from '@/lib/card-image';
+
+const CHECK_INTERVAL = 250;
+// Good frames in a row before capturing, so a card passing through the
+// guide is not taken mid-motion
+const STEADY_FRAMES = 3;
+
+export interface AutoCaptureState {
+  // What is wrong with the latest frame, or null when it is good
+  issue: FrameIssue | null;
+  // 0..1 towards an automatic capture
+  progress: number;
+  // Whether any frame has been analysed yet
+  checking: boolean;
+  // Still showing the card that was just captured
+  waiting: boolean;
+  // Payload of the last QR code seen while the camera has been on
+  qrCode: string | null;
+}
+
+// Watches the viewfinder while `enabled`, decoding any QR code in view, and
+// calls `onCapture` (when given) once the card
+// has filled the guide, in focus and without glare, for a few frames running.
+// With `waitForNewCard` the guide must be empty once before the next capture,
+// so a batch does not take the same card twice.
+export const useAutoCapture = (
+  videoRef: RefObject<HTMLVideoElement>,
+  enabled: boolean,
+  onCapture: (() => void) | undefined,
+  waitForNewCard = false
+): AutoCaptureState => {
+  const [state, setState] = useState<AutoCaptureState>({
+    issue: null,
+    progress: 0,
+    checking: false,
+    waiting: false,
+    qrCode: null,
+  });
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  useEffect(() => {
+    setState({ issue: null, progress: 0, checking: false, waiting: false, qrCode: null });
+    if (!enabled) return;
+
+    let previous: Float32Array | undefined;
+    let goodFrames = 0;
+    let waiting = waitForNewCard;
+    let qrCode: string | null = null;
+    let tick = 0;
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      let quality;
+      try {
+        quality = analyseFrame(video, previous);
+        // QR decoding is the slower check, so every other frame is enough
+        if (tick++ % 2 === 0) qrCode = decodeVideoQrCode(video) ?? qrCode;
+      } catch (error) {
+        console.error('Frame analysis failed:', error);
+        return;
+      }
+      if (!quality) return;
+      previous = quality.gray;
+
+      const issue = frameIssue(quality);
+      if (issue === 'no-card') waiting = false;
+      goodFrames = issue || waiting ? 0 : goodFrames + 1;
+      setState({ issue, progress: Math.min(1, goodFrames / STEADY_FRAMES), checking: true, waiting, qrCode });
+
+      if (goodFrames >= STEADY_FRAMES && onCaptureRef.current) {
+        window.clearInterval(timer);
+        onCaptureRef.current();
+      }
+    }, CHECK_INTERVAL);
+
+    return () => window.clearInterval(timer);
+  }, [enabled, videoRef, waitForNewCard]);
+
+  return state;
+};
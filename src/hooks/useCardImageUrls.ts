@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isDataUrl, signCardImages } from '@/lib/card-images';
+
+// Resolves card image references (bucket paths or unsaved data URLs) to URLs
+// an <img> can load
+export const useCardImageUrls = (references: (string | null | undefined)[]) => {
+  const [signed, setSigned] = useState<Record<string, string>>({});
+  // Data URLs need no signing and would make a very long dependency key
+  const key = references.filter(reference => reference && !isDataUrl(reference)).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const paths = key ? key.split('|') : [];
+
+    signCardImages(paths).then(urls => {
+      if (!cancelled) setSigned(urls);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return useCallback(
+    (reference?: string | null) => (isDataUrl(reference) ? reference : reference ? signed[reference] : undefined),
+    [signed]
+  );
+};
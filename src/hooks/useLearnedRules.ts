@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { learnRules, type Correction, type LearnedRules } from '@/lib/card-parser';
+
+// Enough history to learn from without reading every scan ever made
+const MAX_CORRECTIONS = 200;
+
+// Parsing rules mined from the fields the user corrected on recent scans.
+// Per user, as there are no teams to share them with.
+export const useLearnedRules = () => {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<LearnedRules | undefined>();
+
+  const fetchRules = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('scan_metadata')
+      .select('suggestions, final_values, contacts(raw_text)')
+      .filter('corrected_fields', 'neq', '{}')
+      .order('created_at', { ascending: false })
+      .limit(MAX_CORRECTIONS);
+
+    if (error) {
+      console.error('Learned rules error:', error);
+      return;
+    }
+    const corrections: Correction[] = data
+      .filter(row => row.contacts?.raw_text)
+      .map(row => ({
+        raw_text: row.contacts!.raw_text!,
+        suggestions: row.suggestions as Correction['suggestions'],
+        final: row.final_values as Correction['final'],
+      }));
+    setRules(learnRules(corrections));
+  }, [user]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return rules;
+};
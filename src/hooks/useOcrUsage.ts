@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface OcrUsage {
+  used: number;
+  monthlyLimit: number;
+  resetsAt: Date;
+}
+
+// Google Vision scans used this month, metered by the vision-ocr function
+export const useOcrUsage = () => {
+  const { user } = useAuth();
+  const [usage, setUsage] = useState<OcrUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsage = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('get_ocr_usage').single();
+    if (error) {
+      console.error('OCR usage error:', error);
+    } else {
+      setUsage({ used: data.used, monthlyLimit: data.monthly_limit, resetsAt: new Date(data.resets_at) });
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return { usage, loading, refetch: fetchUsage };
+};
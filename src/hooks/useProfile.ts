@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { toOcrSettings } from '@/lib/ocr';
+
+export type Profile = Tables<'profiles'>;
+
+// "en-IN" -> "IN"; used until the user picks a region on their profile
+const browserRegion = () => {
+  const locale = navigator.languages?.[0] ?? navigator.language;
+  const region = locale?.split('-')[1];
+  return region && /^[A-Z]{2}$/i.test(region) ? region.toUpperCase() : null;
+};
+
+export const useProfile = () => {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfile = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Profile error:', error);
+    } else {
+      setProfile(data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const ocrSettings = useMemo(() => toOcrSettings(profile?.ocr_settings), [profile]);
+
+  const updateProfile = async (changes: TablesUpdate<'profiles'>) => {
+    if (!user) return { error: new Error('Not signed in') };
+
+    const { data, error } = profile
+      ? await supabase.from('profiles').update(changes).eq('id', profile.id).select().single()
+      : await supabase.from('profiles').insert([{ ...changes, user_id: user.id }]).select().single();
+
+    if (!error) setProfile(data);
+    return { error };
+  };
+
+  return {
+    profile,
+    loading,
+    updateProfile,
+    defaultRegion: profile?.default_region ?? browserRegion(),
+    ocrSettings,
+  };
+};
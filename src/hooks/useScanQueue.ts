@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useProfile } from '@/hooks/useProfile';
+import { useLearnedRules } from '@/hooks/useLearnedRules';
+import { scanCard, type CardImages, type RecognisedText, type ScanSource } from '@/lib/card-scan';
+import { toContactDraft, type ContactData } from '@/lib/contacts';
+
+export type QueuedCardStatus = 'queued' | 'scanning' | 'done' | 'failed';
+
+export interface QueuedCard {
+  id: string;
+  // File name for imported images
+  name?: string;
+  images: CardImages;
+  source: ScanSource;
+  language: string;
+  // Text from a PDF's text layer, read instead of OCRing the image
+  text?: RecognisedText;
+  // QR payloads seen in the viewfinder while this card was captured
+  qrCodes?: string[];
+  status: QueuedCardStatus;
+  // The parsed contact once scanned, as edited in the review
+  draft?: ContactData;
+  error?: string;
+}
+
+export type NewQueuedCard = Pick<QueuedCard, 'name' | 'images' | 'source' | 'language' | 'text' | 'qrCodes'>;
+
+// Cards captured in batch mode, read one at a time in the background so the
+// camera stays free for the next card
+export const useScanQueue = () => {
+  const { profile, defaultRegion, ocrSettings } = useProfile();
+  const rules = useLearnedRules();
+  const [cards, setCards] = useState<QueuedCard[]>([]);
+
+  const patch = useCallback((id: string, changes: Partial<QueuedCard>) => {
+    setCards(prev => prev.map(card => (card.id === id ? { ...card, ...changes } : card)));
+  }, []);
+
+  // One OCR run at a time: Tesseract is heavy, and Vision calls count
+  // against the quota either way
+  useEffect(() => {
+    if (cards.some(card => card.status === 'scanning')) return;
+    const next = cards.find(card => card.status === 'queued');
+    if (!next) return;
+
+    patch(next.id, { status: 'scanning' });
+    scanCard(next.images, next.source, {
+      language: next.language,
+      defaultRegion,
+      visionPreprocess: profile?.vision_preprocess,
+      ocr: ocrSettings,
+      rules,
+    }, { frontText: next.text, qrCodes: next.qrCodes })
+      .then(data => patch(next.id, { status: 'done', draft: toContactDraft(data, defaultRegion) }))
+      .catch(error => {
+        console.error('Batch OCR Error:', error);
+        patch(next.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to process the image',
+        });
+      });
+  }, [cards, patch, profile, defaultRegion, ocrSettings, rules]);
+
+  const enqueue = useCallback((card: NewQueuedCard) => {
+    const id = crypto.randomUUID();
+    setCards(prev => [...prev, { ...card, id, status: 'queued' }]);
+    return id;
+  }, []);
+
+  const updateDraft = useCallback((id: string, draft: ContactData) => patch(id, { draft }), [patch]);
+
+  const retry = useCallback((id: string) => patch(id, { status: 'queued', error: undefined }), [patch]);
+
+  const remove = useCallback((id: string) => {
+    setCards(prev => prev.filter(card => card.id !== id));
+  }, []);
+
+  return { cards, enqueue, updateDraft, retry, remove };
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toTag, type Tag } from '@/lib/tags';
+
+// The user's tags, by name
+export const useTags = () => {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTags = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, color')
+      .eq('user_id', user.id)
+      .order('name');
+
+    if (error) {
+      console.error('Tags error:', error);
+    } else {
+      setTags((data ?? []).map(toTag));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return { tags, loading, refetch: fetchTags };
+};
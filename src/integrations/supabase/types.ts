@@ -14,78 +14,344 @@ export type Database = {
   }
   public: {
     Tables: {
+      contact_merges: {
+        Row: {
+          added_scan: string | null
+          added_tags: string[]
+          created_at: string
+          id: string
+          kept_before: Json
+          kept_id: string
+          moved_scans: Json
+          removed: Json
+          removed_tags: Json
+          unused_images: string[]
+          user_id: string
+        }
+        Insert: {
+          added_scan?: string | null
+          added_tags?: string[]
+          created_at?: string
+          id?: string
+          kept_before: Json
+          kept_id: string
+          moved_scans?: Json
+          removed: Json
+          removed_tags?: Json
+          unused_images?: string[]
+          user_id: string
+        }
+        Update: {
+          added_scan?: string | null
+          added_tags?: string[]
+          created_at?: string
+          id?: string
+          kept_before?: Json
+          kept_id?: string
+          moved_scans?: Json
+          removed?: Json
+          removed_tags?: Json
+          unused_images?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      contact_tags: {
+        Row: {
+          contact_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_tags_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contacts: {
         Row: {
+          address_city: string | null
+          address_country: string | null
+          address_postal_code: string | null
+          address_region: string | null
+          address_street: string | null
+          back_image_url: string | null
+          back_raw_text: string | null
           company: string | null
           created_at: string
           email: string | null
+          emails: string[]
           id: string
           image_url: string | null
           job_title: string | null
           location: string | null
           name: string | null
+          notes: string | null
+          ocr_provider: string | null
           phone: string | null
+          phone_e164: string | null
+          phones: Json
           raw_text: string | null
           source: string | null
           updated_at: string
           user_id: string
           website: string | null
+          websites: string[]
         }
         Insert: {
+          address_city?: string | null
+          address_country?: string | null
+          address_postal_code?: string | null
+          address_region?: string | null
+          address_street?: string | null
+          back_image_url?: string | null
+          back_raw_text?: string | null
           company?: string | null
           created_at?: string
           email?: string | null
+          emails?: string[]
           id?: string
           image_url?: string | null
           job_title?: string | null
           location?: string | null
           name?: string | null
+          notes?: string | null
+          ocr_provider?: string | null
           phone?: string | null
+          phone_e164?: string | null
+          phones?: Json
           raw_text?: string | null
           source?: string | null
           updated_at?: string
           user_id: string
           website?: string | null
+          websites?: string[]
         }
         Update: {
+          address_city?: string | null
+          address_country?: string | null
+          address_postal_code?: string | null
+          address_region?: string | null
+          address_street?: string | null
+          back_image_url?: string | null
+          back_raw_text?: string | null
           company?: string | null
           created_at?: string
           email?: string | null
+          emails?: string[]
           id?: string
           image_url?: string | null
           job_title?: string | null
           location?: string | null
           name?: string | null
+          notes?: string | null
+          ocr_provider?: string | null
           phone?: string | null
+          phone_e164?: string | null
+          phones?: Json
           raw_text?: string | null
           source?: string | null
           updated_at?: string
           user_id?: string
           website?: string | null
+          websites?: string[]
+        }
+        Relationships: []
+      }
+      ocr_quotas: {
+        Row: {
+          created_at: string
+          monthly_limit: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          monthly_limit: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          monthly_limit?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ocr_usage: {
+        Row: {
+          bytes: number
+          created_at: string
+          duration_ms: number
+          error_code: string | null
+          id: string
+          provider: string
+          success: boolean
+          user_id: string
+        }
+        Insert: {
+          bytes: number
+          created_at?: string
+          duration_ms: number
+          error_code?: string | null
+          id?: string
+          provider?: string
+          success: boolean
+          user_id: string
+        }
+        Update: {
+          bytes?: number
+          created_at?: string
+          duration_ms?: number
+          error_code?: string | null
+          id?: string
+          provider?: string
+          success?: boolean
+          user_id?: string
         }
         Relationships: []
       }
       profiles: {
         Row: {
           created_at: string
+          default_region: string | null
           display_name: string | null
           id: string
+          ocr_language: string | null
+          ocr_settings: Json | null
           updated_at: string
           user_id: string
+          vision_preprocess: boolean
         }
         Insert: {
           created_at?: string
+          default_region?: string | null
           display_name?: string | null
           id?: string
+          ocr_language?: string | null
+          ocr_settings?: Json | null
           updated_at?: string
           user_id: string
+          vision_preprocess?: boolean
         }
         Update: {
           created_at?: string
+          default_region?: string | null
           display_name?: string | null
           id?: string
+          ocr_language?: string | null
+          ocr_settings?: Json | null
           updated_at?: string
           user_id?: string
+          vision_preprocess?: boolean
+        }
+        Relationships: []
+      }
+      scan_metadata: {
+        Row: {
+          confidence: number | null
+          contact_id: string
+          corrected_fields: string[]
+          created_at: string
+          field_scores: Json
+          final_values: Json
+          id: string
+          ocr_ms: number | null
+          ocr_provider: string | null
+          parse_ms: number | null
+          review_ms: number | null
+          source: string | null
+          suggestions: Json
+          total_ms: number | null
+          user_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          contact_id: string
+          corrected_fields?: string[]
+          created_at?: string
+          field_scores?: Json
+          final_values?: Json
+          id?: string
+          ocr_ms?: number | null
+          ocr_provider?: string | null
+          parse_ms?: number | null
+          review_ms?: number | null
+          source?: string | null
+          suggestions?: Json
+          total_ms?: number | null
+          user_id: string
+        }
+        Update: {
+          confidence?: number | null
+          contact_id?: string
+          corrected_fields?: string[]
+          created_at?: string
+          field_scores?: Json
+          final_values?: Json
+          id?: string
+          ocr_ms?: number | null
+          ocr_provider?: string | null
+          parse_ms?: number | null
+          review_ms?: number | null
+          source?: string | null
+          suggestions?: Json
+          total_ms?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_metadata_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -94,7 +360,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_ocr_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          monthly_limit: number
+          resets_at: string
+          used: number
+        }[]
+      }
+      merge_contacts: {
+        Args: {
+          add_tag_ids?: string[]
+          keep_id: string
+          merged_values: Json
+          remove_ids?: string[]
+          scan?: Json
+          unused_images?: string[]
+        }
+        Returns: string
+      }
+      reserve_ocr_scan: {
+        Args: { caller_id: string; image_bytes: number }
+        Returns: {
+          monthly_limit: number
+          usage_id: string | null
+        }[]
+      }
+      undo_contact_merge: {
+        Args: { merge_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,165 @@
+import type { Quad } from './types';
+import { toGray } from './pixels';
+
+// Edge detection runs on a small copy; corners come back as fractions, so
+// the working size does not affect the crop
+const WORK_SIZE = 400;
+// Smallest share of the frame a detected card may cover
+const MIN_AREA = 0.15;
+
+const boxBlur = (values: Float32Array, width: number, height: number) => {
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += values[ny * width + nx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+const sobel = (gray: Float32Array, width: number, height: number) => {
+  const magnitude = new Float32Array(gray.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      magnitude[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  return magnitude;
+};
+
+// Edge pixels: the strongest tenth of gradients, thickened by one pixel so a
+// card outline broken by glare still joins up
+const edgeMask = (magnitude: Float32Array, width: number, height: number) => {
+  const sorted = Float32Array.from(magnitude).sort();
+  const threshold = Math.max(40, sorted[Math.floor(sorted.length * 0.9)]);
+
+  const mask = new Uint8Array(magnitude.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (magnitude[y * width + x] < threshold) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) mask[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return mask;
+};
+
+// The connected edge group spanning the largest bounding box is taken to be
+// the card outline; text and table clutter form smaller groups
+const largestOutline = (mask: Uint8Array, width: number, height: number) => {
+  const seen = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best: number[] = [];
+  let bestArea = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    const pixels: number[] = [];
+
+    while (head < tail) {
+      const index = queue[head++];
+      pixels.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+
+      for (const next of [index - 1, index + 1, index - width, index + width]) {
+        if (next < 0 || next >= mask.length || seen[next] || !mask[next]) continue;
+        // Do not wrap around from one row's end to the next row's start
+        if ((next === index - 1 && x === 0) || (next === index + 1 && x === width - 1)) continue;
+        seen[next] = 1;
+        queue[tail++] = next;
+      }
+    }
+
+    const area = (maxX - minX) * (maxY - minY);
+    if (area > bestArea) {
+      bestArea = area;
+      best = pixels;
+    }
+  }
+
+  return best;
+};
+
+export const polygonArea = (quad: Quad) =>
+  Math.abs(quad.reduce((sum, point, i) => {
+    const next = quad[(i + 1) % quad.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+const isConvex = (quad: Quad) => {
+  const signs = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return Math.sign((next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x));
+  });
+  return signs.every(sign => sign === signs[0] && sign !== 0);
+};
+
+// Finds the four corners of a card in a photo, or null when no convincing
+// outline stands out from the background
+export const detectCardCorners = (image: HTMLImageElement | HTMLCanvasElement): Quad | null => {
+  const sourceWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const sourceHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, WORK_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(image, 0, 0, width, height);
+
+  const gray = boxBlur(boxBlur(toGray(context.getImageData(0, 0, width, height)), width, height), width, height);
+  const outline = largestOutline(edgeMask(sobel(gray, width, height), width, height), width, height);
+  if (outline.length === 0) return null;
+
+  // Corners are the outline points furthest along each diagonal
+  let topLeft = outline[0], topRight = outline[0], bottomRight = outline[0], bottomLeft = outline[0];
+  const sum = (index: number) => (index % width) + Math.floor(index / width);
+  const diff = (index: number) => (index % width) - Math.floor(index / width);
+  for (const index of outline) {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (diff(index) > diff(topRight)) topRight = index;
+    if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+  }
+
+  const toPoint = (index: number) => ({ x: (index % width) / width, y: Math.floor(index / width) / height });
+  const quad: Quad = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+
+  return isConvex(quad) && polygonArea(quad) >= MIN_AREA ? quad : null;
+};
@@ -0,0 +1,26 @@
+import { loadImage } from '@/lib/images';
+import { detectCardCorners } from './corners';
+import { decodeQrCode } from './qr';
+import { warpCard } from './warp';
+import { DEFAULT_QUAD, type Quad } from './types';
+
+export { DEFAULT_QUAD, type Point, type Quad } from './types';
+export { preprocessForOcr, type PreprocessResult } from './preprocess';
+export { analyseFrame, frameIssue, type FrameIssue, type FrameQuality } from './quality';
+export { decodeVideoQrCode } from './qr';
+
+// Corners to start the adjuster from: the detected card, or a centred frame
+export const findCardCorners = async (src: string): Promise<{ corners: Quad; detected: boolean }> => {
+  const image = await loadImage(src);
+  const corners = detectCardCorners(image);
+  return corners ? { corners, detected: true } : { corners: DEFAULT_QUAD, detected: false };
+};
+
+// Flattens the card inside `corners` into a JPEG data URL
+export const cropCard = async (src: string, corners: Quad, quality = 0.92) => {
+  const image = await loadImage(src);
+  return warpCard(image, corners).toDataURL('image/jpeg', quality);
+};
+
+// The payload of a QR code on the card, or null when there is none
+export const readQrCode = async (src: string) => decodeQrCode(await loadImage(src));
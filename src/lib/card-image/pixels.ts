@@ -0,0 +1,17 @@
+// Luma of each pixel, 0 (black) to 255 (white)
+export const toGray = (data: ImageData) => {
+  const gray = new Float32Array(data.width * data.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data.data[i * 4] + 0.587 * data.data[i * 4 + 1] + 0.114 * data.data[i * 4 + 2];
+  }
+  return gray;
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available');
+  return { canvas, context };
+};
@@ -0,0 +1,160 @@
+import { loadImage } from '@/lib/images';
+import { createCanvas, toGray } from './pixels';
+
+// Tesseract reads best with text around 30px high; a card this wide gets there
+const TARGET_WIDTH = 2000;
+const MAX_SCALE = 3;
+// Deskew searches this many degrees either way, on a small copy
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.5;
+const SKEW_WORK_SIZE = 600;
+
+export interface PreprocessResult {
+  // Black text on white, as a PNG data URL
+  image: string;
+  skewDegrees: number;
+  inverted: boolean;
+}
+
+// Bradley's adaptive threshold: a pixel is ink when it is clearly darker than
+// the average of its neighbourhood, so shadows and gradients do not swallow
+// text the way a single global threshold would
+const adaptiveThreshold = (gray: Float32Array, width: number, height: number, sensitivity = 0.15) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.round(width / 32));
+  const ink = new Uint8Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      ink[y * width + x] = gray[y * width + x] < mean * (1 - sensitivity) ? 1 : 0;
+    }
+  }
+  return ink;
+};
+
+// Drops ink pixels with at most one inked neighbour: sensor noise and the
+// texture of glossy or linen card stock
+const despeckle = (ink: Uint8Array, width: number, height: number) => {
+  const out = ink.slice();
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      if (!ink[index]) continue;
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx || dy) neighbours += ink[index + dy * width + dx];
+        }
+      }
+      if (neighbours <= 1) out[index] = 0;
+    }
+  }
+  return out;
+};
+
+// Light text on a dark card comes out of the threshold as outlines around
+// each letter; reading the card as negative fixes that. A dark card shows up
+// as a low average brightness.
+const isDarkBackground = (gray: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) sum += gray[i];
+  return sum / gray.length < 110;
+};
+
+// Text lines are horizontal when the row profile of ink is most peaked, i.e.
+// rows are either full of ink or empty
+const estimateSkew = (image: CanvasImageSource, width: number, height: number, inverted: boolean) => {
+  const scale = Math.min(1, SKEW_WORK_SIZE / Math.max(width, height));
+  const workWidth = Math.round(width * scale);
+  const workHeight = Math.round(height * scale);
+  const { context } = createCanvas(workWidth, workHeight);
+  context.drawImage(image, 0, 0, workWidth, workHeight);
+
+  let gray = toGray(context.getImageData(0, 0, workWidth, workHeight));
+  if (inverted) gray = gray.map(value => 255 - value);
+  const ink = adaptiveThreshold(gray, workWidth, workHeight);
+
+  const points: [number, number][] = [];
+  for (let y = 0; y < workHeight; y++) {
+    for (let x = 0; x < workWidth; x++) {
+      if (ink[y * workWidth + x]) points.push([x - workWidth / 2, y - workHeight / 2]);
+    }
+  }
+  if (points.length === 0) return 0;
+
+  let bestAngle = 0;
+  let bestScore = -Infinity;
+  for (let degrees = -MAX_SKEW; degrees <= MAX_SKEW; degrees += SKEW_STEP) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    for (const [x, y] of points) {
+      const row = Math.round(y * cos - x * sin);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    }
+    let score = 0;
+    for (const count of rows.values()) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+  return bestAngle;
+};
+
+// Prepares a card photo for Tesseract: upscale, grayscale, straighten,
+// binarise, invert light-on-dark cards and clean up speckles
+export const preprocessForOcr = async (src: string): Promise<PreprocessResult> => {
+  const image = await loadImage(src);
+  const scale = Math.min(MAX_SCALE, Math.max(1, TARGET_WIDTH / Math.max(image.naturalWidth, image.naturalHeight)));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const { context: probe } = createCanvas(64, 64);
+  probe.drawImage(image, 0, 0, 64, 64);
+  const inverted = isDarkBackground(toGray(probe.getImageData(0, 0, 64, 64)));
+
+  const skewDegrees = estimateSkew(image, image.naturalWidth, image.naturalHeight, inverted);
+
+  // Rotating by the opposite of the skew levels the text; white fills the
+  // corners the rotation uncovers (black when the card is about to be inverted)
+  const { canvas, context } = createCanvas(width, height);
+  context.fillStyle = inverted ? '#000' : '#fff';
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = 'high';
+  context.translate(width / 2, height / 2);
+  context.rotate((-skewDegrees * Math.PI) / 180);
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  const pixels = context.getImageData(0, 0, width, height);
+  let gray = toGray(pixels);
+  if (inverted) gray = gray.map(value => 255 - value);
+  const ink = despeckle(adaptiveThreshold(gray, width, height), width, height);
+
+  for (let i = 0; i < ink.length; i++) {
+    const value = ink[i] ? 0 : 255;
+    pixels.data[i * 4] = value;
+    pixels.data[i * 4 + 1] = value;
+    pixels.data[i * 4 + 2] = value;
+    pixels.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+
+  return { image: canvas.toDataURL('image/png'), skewDegrees, inverted };
+};
@@ -0,0 +1,35 @@
+import jsQR from 'jsqr';
+import { createCanvas } from './pixels';
+
+// Sizes to try, largest first: a small code on a large photo needs the
+// detail, while a code filling the frame is found faster on a small copy
+const STILL_SIZES = [1200, 600];
+// The viewfinder is checked several times a second, so one modest size
+const LIVE_SIZE = 640;
+
+const decodeAt = (source: CanvasImageSource, width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+  const { context } = createCanvas(scaledWidth, scaledHeight);
+  context.drawImage(source, 0, 0, scaledWidth, scaledHeight);
+  const { data } = context.getImageData(0, 0, scaledWidth, scaledHeight);
+  // Light-on-dark codes are common on dark cards
+  return jsQR(data, scaledWidth, scaledHeight, { inversionAttempts: 'attemptBoth' })?.data || null;
+};
+
+// The payload of the QR code in an image, or null when there is none
+export const decodeQrCode = (source: HTMLImageElement | HTMLCanvasElement, sizes = STILL_SIZES) => {
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  if (!width || !height) return null;
+
+  for (const size of sizes) {
+    const payload = decodeAt(source, width, height, size);
+    if (payload) return payload;
+  }
+  return null;
+};
+
+export const decodeVideoQrCode = (video: HTMLVideoElement) =>
+  video.videoWidth && video.videoHeight ? decodeAt(video, video.videoWidth, video.videoHeight, LIVE_SIZE) : null;
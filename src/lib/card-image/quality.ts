@@ -0,0 +1,110 @@
+import { detectCardCorners, polygonArea } from './corners';
+import { createCanvas, toGray } from './pixels';
+
+// The alignment guide drawn over the viewfinder, as a share of the visible
+// video (w-4/5 h-3/5 in CardScanner)
+const GUIDE_WIDTH = 0.8;
+const GUIDE_HEIGHT = 0.6;
+// Frames are analysed on the guide plus this much margin on each side, so a
+// card that fills the guide still has background around its edges
+const GUIDE_MARGIN = 0.1;
+const WORK_SIZE = 480;
+
+// Variance of the Laplacian below which text edges are too soft to read
+const MIN_SHARPNESS = 60;
+// Share of blown-out pixels that hides text under a reflection
+const MAX_GLARE = 0.03;
+const MIN_BRIGHTNESS = 60;
+// Average per-pixel change between frames while the card is still moving
+const MAX_MOTION = 6;
+// Share of the analysed area the card must cover; the guide alone is ~0.69
+const MIN_FILL = 0.4;
+
+export type FrameIssue = 'no-card' | 'too-small' | 'too-dark' | 'glare' | 'moving' | 'blurry';
+
+export interface FrameQuality {
+  sharpness: number;
+  glare: number;
+  brightness: number;
+  // Change since the previous frame; Infinity for the first one
+  motion: number;
+  // Share of the analysed area covered by the card, 0 when none was found
+  fill: number;
+  // Grayscale copy to compare the next frame against
+  gray: Float32Array;
+}
+
+// Part of the video under the alignment guide, in video pixels. The video
+// is shown with object-cover, so the element only shows its central part.
+const guideRegion = (video: HTMLVideoElement) => {
+  const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+  const scale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight) || 1;
+  const visibleWidth = Math.min(videoWidth, clientWidth / scale);
+  const visibleHeight = Math.min(videoHeight, clientHeight / scale);
+  const width = Math.min(videoWidth, visibleWidth * (GUIDE_WIDTH + 2 * GUIDE_MARGIN));
+  const height = Math.min(videoHeight, visibleHeight * (GUIDE_HEIGHT + 2 * GUIDE_MARGIN));
+  return { x: (videoWidth - width) / 2, y: (videoHeight - height) / 2, width, height };
+};
+
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const value = gray[index - width] + gray[index + width] + gray[index - 1] + gray[index + 1] - 4 * gray[index];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Measures the current video frame under the guide: focus, reflections,
+// exposure, movement since `previous` and how much of the guide the card fills
+export const analyseFrame = (video: HTMLVideoElement, previous?: Float32Array): FrameQuality | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const region = guideRegion(video);
+  const scale = Math.min(1, WORK_SIZE / Math.max(region.width, region.height));
+  const width = Math.max(1, Math.round(region.width * scale));
+  const height = Math.max(1, Math.round(region.height * scale));
+  const { canvas, context } = createCanvas(width, height);
+  context.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  const gray = toGray(context.getImageData(0, 0, width, height));
+
+  let brightness = 0;
+  let clipped = 0;
+  let motion = 0;
+  for (let i = 0; i < gray.length; i++) {
+    brightness += gray[i];
+    if (gray[i] >= 250) clipped++;
+    if (previous?.length === gray.length) motion += Math.abs(gray[i] - previous[i]);
+  }
+
+  const corners = detectCardCorners(canvas);
+  return {
+    sharpness: laplacianVariance(gray, width, height),
+    glare: clipped / gray.length,
+    brightness: brightness / gray.length,
+    motion: previous?.length === gray.length ? motion / gray.length : Infinity,
+    fill: corners ? polygonArea(corners) : 0,
+    gray,
+  };
+};
+
+// The first thing stopping a good capture, or null when the frame is good.
+// Ordered so the hint names what the user should fix first.
+export const frameIssue = (quality: FrameQuality): FrameIssue | null => {
+  if (quality.brightness < MIN_BRIGHTNESS) return 'too-dark';
+  if (quality.fill === 0) return 'no-card';
+  if (quality.fill < MIN_FILL) return 'too-small';
+  if (quality.motion > MAX_MOTION) return 'moving';
+  if (quality.glare > MAX_GLARE) return 'glare';
+  if (quality.sharpness < MIN_SHARPNESS) return 'blurry';
+  return null;
+};
@@ -0,0 +1,15 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Card corners as fractions of the image size, clockwise from top-left
+export type Quad = [Point, Point, Point, Point];
+
+// Where the corner handles start when no card outline can be found
+export const DEFAULT_QUAD: Quad = [
+  { x: 0.1, y: 0.15 },
+  { x: 0.9, y: 0.15 },
+  { x: 0.9, y: 0.85 },
+  { x: 0.1, y: 0.85 },
+];
@@ -0,0 +1,115 @@
+import type { Point, Quad } from './types';
+import { createCanvas } from './pixels';
+
+// Width / height of the common card sizes: US 3.5 x 2 in, ISO 85 x 55 mm
+const CARD_RATIOS = [3.5 / 2, 85 / 55];
+const MAX_OUTPUT = 1600;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Solves a linear system by Gaussian elimination with partial pivoting
+const solve = (matrix: number[][], vector: number[]) => {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+};
+
+// Homography taking points of the output rectangle back into the photo, so
+// every output pixel can look up its source
+const homography = (from: Point[], to: Point[]) => {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  from.forEach(({ x: u, y: v }, i) => {
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x]);
+    vector.push(x);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y]);
+    vector.push(y);
+  });
+
+  const [a, b, c, d, e, f, g, h] = solve(matrix, vector);
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+// Output size: the larger measured edge, at the nearest standard card ratio
+const outputSize = (corners: Point[]) => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const landscape = width >= height;
+
+  const measured = landscape ? width / height : height / width;
+  const ratio = CARD_RATIOS.reduce((best, candidate) =>
+    Math.abs(candidate - measured) < Math.abs(best - measured) ? candidate : best
+  );
+
+  const long = Math.min(MAX_OUTPUT, Math.round(Math.max(width, height)));
+  const short = Math.round(long / ratio);
+  return landscape ? { width: long, height: short } : { width: short, height: long };
+};
+
+// Cuts the card out of the photo along `quad` and flattens it to a rectangle
+export const warpCard = (image: HTMLImageElement, quad: Quad): HTMLCanvasElement => {
+  const sourceWidth = image.naturalWidth;
+  const sourceHeight = image.naturalHeight;
+
+  const { context: sourceContext } = createCanvas(sourceWidth, sourceHeight);
+  sourceContext.drawImage(image, 0, 0);
+  const pixels = sourceContext.getImageData(0, 0, sourceWidth, sourceHeight).data;
+
+  const corners = quad.map(point => ({ x: point.x * sourceWidth, y: point.y * sourceHeight }));
+  const { width, height } = outputSize(corners);
+  const toSource = homography(
+    [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }],
+    corners
+  );
+
+  const { canvas: output, context: outputContext } = createCanvas(width, height);
+  const result = outputContext.createImageData(width, height);
+
+  // Bilinear sampling keeps small print legible after stretching
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const { x, y } = toSource(u, v);
+      const x0 = Math.min(sourceWidth - 2, Math.max(0, Math.floor(x)));
+      const y0 = Math.min(sourceHeight - 2, Math.max(0, Math.floor(y)));
+      const fx = Math.min(1, Math.max(0, x - x0));
+      const fy = Math.min(1, Math.max(0, y - y0));
+      const target = (v * width + u) * 4;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const at = (px: number, py: number) => pixels[(py * sourceWidth + px) * 4 + channel];
+        const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+        const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+        result.data[target + channel] = top * (1 - fy) + bottom * fy;
+      }
+      result.data[target + 3] = 255;
+    }
+  }
+
+  outputContext.putImageData(result, 0, 0);
+  return output;
+};
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const CARD_IMAGE_BUCKET = 'card-images';
+
+// Signed URLs outlive a session on the contacts page; they are re-signed on
+// every load
+const SIGNED_URL_TTL = 60 * 60;
+
+// Freshly scanned images are data URLs until the contact is saved; saved
+// contacts hold a path inside the bucket
+export const isDataUrl = (value?: string | null): value is string => !!value?.startsWith('data:');
+
+const toBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+// Uploads a scanned image into the user's folder and returns its path
+export const uploadCardImage = async (userId: string, dataUrl: string) => {
+  const blob = await toBlob(dataUrl);
+  const extension = blob.type === 'image/png' ? 'png' : blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(CARD_IMAGE_BUCKET)
+    .upload(path, blob, { contentType: blob.type || 'image/jpeg' });
+
+  if (error) throw error;
+  return path;
+};
+
+export const removeCardImages = async (paths: (string | null | undefined)[]) => {
+  const stored = paths.filter((path): path is string => !!path && !isDataUrl(path));
+  if (stored.length === 0) return;
+
+  const { error } = await supabase.storage.from(CARD_IMAGE_BUCKET).remove(stored);
+  if (error) console.error('Card image cleanup failed:', error);
+};
+
+// Maps each stored path to a short-lived URL the browser can load
+export const signCardImages = async (paths: string[]): Promise<Record<string, string>> => {
+  const stored = Array.from(new Set(paths.filter(path => path && !isDataUrl(path))));
+  if (stored.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(CARD_IMAGE_BUCKET)
+    .createSignedUrls(stored, SIGNED_URL_TTL);
+
+  if (error) {
+    console.error('Card image signing failed:', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (data ?? [])
+      .filter(entry => entry.path && entry.signedUrl)
+      .map(entry => [entry.path as string, entry.signedUrl])
+  );
+};
@@ -0,0 +1,126 @@
+import { unzip } from 'fflate';
+import { compressImage } from '@/lib/images';
+import { cropCard, findCardCorners } from '@/lib/card-image';
+import { isPdfFile, openPdf, readPdfPage } from '@/lib/card-pdf';
+import type { RecognisedText, ScanSource } from '@/lib/card-scan';
+
+// Same limit as a single upload
+export const MAX_IMPORT_SIZE = 10 * 1024 * 1024;
+// Imports are scaled down to this before OCR; plenty for a card, and keeps a
+// folder of phone photos from filling memory
+const IMPORT_MAX_EDGE = 2000;
+
+const imageTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+export interface ImportedCard {
+  image: string;
+  text?: RecognisedText;
+  source: ScanSource;
+}
+
+// A picked image, an image from inside a ZIP or a page of a PDF, loaded on
+// demand. Entries that cannot be imported carry the reason instead.
+export interface ImportEntry {
+  name: string;
+  read?: () => Promise<ImportedCard>;
+  error?: string;
+}
+
+const extension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+// Dotfiles and macOS resource forks ("__MACOSX/._IMG_0001.jpg") travel with
+// folders and archives but are not photos
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+export const isZipFile = (file: File) =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || extension(file.name) === 'zip';
+
+const isImageFile = (file: File) =>
+  file.type ? file.type.startsWith('image/') : extension(file.name) in imageTypes;
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(blob);
+  });
+
+// Prepares an imported photo the way the scanner prepares a capture: scaled
+// down and, where the card's outline is found, cropped and flattened
+const loadImportImage = async (blob: Blob): Promise<ImportedCard> => {
+  const image = await compressImage(await readAsDataUrl(blob), IMPORT_MAX_EDGE, 0.92);
+  try {
+    const { corners, detected } = await findCardCorners(image);
+    return { image: detected ? await cropCard(image, corners) : image, source: 'upload' };
+  } catch (error) {
+    console.error('Card detection failed:', error);
+    return { image, source: 'upload' };
+  }
+};
+
+const unzipImages = async (file: File): Promise<ImportEntry[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) =>
+    unzip(
+      data,
+      { filter: entry => extension(entry.name) in imageTypes && !isHidden(entry.name) },
+      (error, result) => (error ? reject(error) : resolve(result))
+    )
+  );
+
+  return Object.entries(files).map(([path, bytes]) => {
+    const name = `${file.name}/${path}`;
+    return bytes.length > MAX_IMPORT_SIZE
+      ? { name, error: 'Larger than 10MB' }
+      : { name, read: () => loadImportImage(new Blob([bytes], { type: imageTypes[extension(path)] })) };
+  });
+};
+
+// One entry per page: a multi-page PDF is usually a sheet of cards
+const pdfPages = async (file: File): Promise<ImportEntry[]> => {
+  const pdf = await openPdf(file);
+  return Array.from({ length: pdf.numPages }, (_, index) => ({
+    name: pdf.numPages === 1 ? file.name : `${file.name} (page ${index + 1})`,
+    read: async () => ({ ...(await readPdfPage(pdf, index + 1)), source: 'pdf' as const }),
+  }));
+};
+
+const byName = new Intl.Collator(undefined, { numeric: true }).compare;
+
+// Flattens a selection (loose photos, a folder, ZIP archives, PDFs) into one
+// entry per card, in name order. Other files in a folder are skipped silently.
+export const expandImportFiles = async (files: File[]): Promise<ImportEntry[]> => {
+  const entries = await Promise.all(
+    files.map(async (file): Promise<ImportEntry[]> => {
+      const name = file.webkitRelativePath || file.name;
+      if (isZipFile(file)) {
+        try {
+          return await unzipImages(file);
+        } catch (error) {
+          console.error('ZIP error:', error);
+          return [{ name, error: 'Could not open the ZIP file' }];
+        }
+      }
+      if (isPdfFile(file)) {
+        try {
+          return await pdfPages(file);
+        } catch (error) {
+          console.error('PDF error:', error);
+          return [{ name, error: 'Could not open the PDF' }];
+        }
+      }
+      if (isHidden(name) || !isImageFile(file)) return [];
+      if (file.size > MAX_IMPORT_SIZE) return [{ name, error: 'Larger than 10MB' }];
+      return [{ name, read: () => loadImportImage(file) }];
+    })
+  );
+  return entries.flat().sort((a, b) => byName(a.name, b.name));
+};
@@ -0,0 +1,3 @@
+// The parser lives with the edge functions, which can only deploy code
+// under supabase/functions; the app uses it from here
+export * from '../../../supabase/functions/_shared/card-parser/index.ts';
@@ -0,0 +1,94 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { toTextBlocks, type PixelLine, type TextBlock } from '@/lib/card-parser';
+import type { RecognisedText } from '@/lib/ocr';
+
+// Pages are rendered so the long edge has about this many pixels: sharp
+// enough for OCR, small enough to keep with the contact
+const RENDER_SIZE = 2000;
+// A text layer with less than this is a scan wrapped in a PDF, or just a logo
+const MIN_TEXT_LENGTH = 20;
+
+export interface PdfPage {
+  image: string;
+  // The page's own text, when it has a usable text layer
+  text?: RecognisedText;
+}
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// pdf.js is large, so it is only loaded once someone picks a PDF
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
+
+export const openPdf = async (file: File): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+// Groups the text layer's runs into lines by baseline, left to right, with
+// boxes in rendered pixels so they line up with the OCR layout
+const textLines = async (page: PDFPageProxy, transform: number[]): Promise<PixelLine[]> => {
+  const { Util } = await loadPdfJs();
+  const content = await page.getTextContent();
+  const runs = content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map(item => {
+      const [, , c, d, x, baseline] = Util.transform(transform, item.transform);
+      const size = Math.hypot(c, d);
+      const scale = Math.hypot(transform[0], transform[1]);
+      return { text: item.str, x0: x, x1: x + item.width * scale, y0: baseline - size, y1: baseline, size };
+    })
+    .sort((a, b) => a.y1 - b.y1 || a.x0 - b.x0);
+
+  const lines: (PixelLine & { size: number })[] = [];
+  for (const run of runs) {
+    const line = lines.find(candidate => Math.abs(candidate.y1 - run.y1) < Math.min(candidate.size, run.size) / 2);
+    if (!line) {
+      lines.push({ ...run });
+      continue;
+    }
+    const gap = run.x0 - line.x1;
+    line.text += gap > run.size * 0.15 && !line.text.endsWith(' ') ? ` ${run.text}` : run.text;
+    line.x1 = Math.max(line.x1, run.x1);
+    line.y0 = Math.min(line.y0, run.y0);
+    line.size = Math.max(line.size, run.size);
+  }
+  return lines
+    .sort((a, b) => a.y1 - b.y1)
+    .map(({ text, x0, y0, x1, y1 }) => ({ text: text.trim(), x0, y0, x1, y1 }));
+};
+
+// Renders one page (1-based) to a JPEG and reads its text layer, if any
+export const readPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<PdfPage> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const { width, height } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(4, RENDER_SIZE / Math.max(width, height)) });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    // PDFs are transparent where nothing is drawn; JPEG would turn that black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    const image = canvas.toDataURL('image/jpeg', 0.92);
+
+    const lines = await textLines(page, viewport.transform);
+    const text = lines.map(line => line.text).join('\n');
+    if (text.replace(/\s/g, '').length < MIN_TEXT_LENGTH) return { image };
+
+    const layout: TextBlock[] = toTextBlocks(lines, canvas.width, canvas.height);
+    // The text layer is exact, unlike OCR
+    return { image, text: { text, confidence: 1, layout, provider: 'pdf' } };
+  } finally {
+    page.cleanup();
+  }
+};
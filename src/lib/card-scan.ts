@@ -0,0 +1,173 @@
+import { compressImage } from '@/lib/images';
+import { readQrCode } from '@/lib/card-image';
+import { OcrError, recogniseText, type OcrProgress, type OcrProviderId, type OcrSettings, type RecognisedText } from '@/lib/ocr';
+import { toCardValues, type ScanMetadataDraft } from '@/lib/scan-metadata';
+import {
+  extractContactInfo,
+  mergeCodeReading,
+  mergeSides,
+  parseCardCode,
+  type LearnedRules,
+  type ParsedCard,
+} from '@/lib/card-parser';
+
+export type { RecognisedText } from '@/lib/ocr';
+
+// How the card reached the scanner; stored with the contact
+export type ScanSource = 'camera' | 'upload' | 'pdf' | 'text';
+
+export interface ScannedData extends ParsedCard {
+  source: ScanSource;
+  // What read the text: an OCR provider, "pdf" or "qr"
+  ocr_provider?: string | null;
+  // Saved with the contact as its scan_metadata row
+  scan?: ScanMetadataDraft;
+  image_url?: string;
+  back_image_url?: string;
+}
+
+export interface CardImages {
+  front: string;
+  back?: string | null;
+}
+
+export interface ScanOptions {
+  // BCP-47 tag or AUTO_LANGUAGE
+  language: string;
+  defaultRegion?: string | null;
+  // Send the pre-processed image to Google Vision as well as Tesseract
+  visionPreprocess?: boolean;
+  // Provider order and timeouts; the defaults when missing
+  ocr?: OcrSettings;
+  // Learned from the user's past corrections
+  rules?: LearnedRules;
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+  onProviderError?: (provider: OcrProviderId, error: OcrError) => void;
+}
+
+export interface ScanProgress extends OcrProgress {
+  side: 'front' | 'back';
+}
+
+const readSide = (image: string, side: ScanProgress['side'], options: ScanOptions) =>
+  recogniseText(image, { ...options, onProgress: progress => options.onProgress?.({ ...progress, side }) });
+
+// Recognition stops itself when the scan is cancelled; the steps around it
+// check in between
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new OcrError('cancelled', 'Scan cancelled');
+};
+
+const hasText = (result: RecognisedText | null) => !!result && result.text.trim().length >= 3;
+
+const parse = (result: RecognisedText, options: ScanOptions) =>
+  extractContactInfo(result.text, {
+    confidence: result.confidence,
+    defaultRegion: options.defaultRegion,
+    layout: result.layout,
+    rules: options.rules,
+  });
+
+// What is already known about a card before it is scanned
+export interface KnownReadings {
+  // The front's text from a PDF text layer, used instead of OCR
+  frontText?: RecognisedText;
+  // QR payloads decoded live in the viewfinder
+  qrCodes?: string[];
+}
+
+// The first QR code on the card that holds contact details
+const readCardCode = async (images: CardImages, known: KnownReadings, defaultRegion?: string | null) => {
+  const decode = (image?: string | null) =>
+    image ? readQrCode(image).catch(error => {
+      console.warn('QR decoding failed:', error);
+      return null;
+    }) : null;
+
+  for (const payload of [...(known.qrCodes ?? []), await decode(images.front), await decode(images.back)]) {
+    const code = payload ? parseCardCode(payload, defaultRegion) : null;
+    if (code) return code;
+  }
+  return null;
+};
+
+const toScanMetadata = (parsed: ParsedCard, provider: string | null, timing: ScanMetadataDraft['timing']): ScanMetadataDraft => ({
+  ocr_provider: provider,
+  confidence: parsed.confidence ?? null,
+  field_scores: parsed.field_scores ?? {},
+  suggestions: toCardValues(parsed),
+  timing,
+  scanned_at: Date.now(),
+});
+
+// Reads one or both sides of a card and parses them into a contact. A QR
+// code on the card is trusted over the OCR text.
+export const scanCard = async (
+  images: CardImages,
+  source: ScanSource,
+  options: ScanOptions,
+  known: KnownReadings = {}
+): Promise<ScannedData> => {
+  const started = performance.now();
+  const code = await readCardCode(images, known, options.defaultRegion);
+  throwIfCancelled(options.signal);
+  const front = known.frontText ?? await readSide(images.front, 'front', options);
+  // A back with only a logo on it is fine, and so is one no provider could
+  // read: the front's text is used and the back image is still kept
+  const back = images.back
+    ? await readSide(images.back, 'back', options).catch(error => {
+        if (error instanceof OcrError && error.code === 'cancelled') throw error;
+        return null;
+      })
+    : null;
+
+  if (!hasText(front) && !hasText(back) && !code) {
+    throw new OcrError('no_text', 'No text could be extracted from the image');
+  }
+
+  const parseStarted = performance.now();
+  const ocr = hasText(front) && hasText(back)
+    ? mergeSides(parse(front, options), parse(back, options))
+    : hasText(front) || hasText(back) ? parse(hasText(front) ? front : back, options) : null;
+  const parsed = ocr && code ? mergeCodeReading(ocr, code) : ocr ?? code;
+  const parseEnded = performance.now();
+  throwIfCancelled(options.signal);
+
+  const [frontImage, backImage] = await Promise.all([
+    compressImage(images.front),
+    images.back ? compressImage(images.back) : undefined,
+  ]);
+
+  const ocrProvider = (hasText(front) ? front : hasText(back) ? back : null)?.provider ?? 'qr';
+  return {
+    ...parsed,
+    source,
+    ocr_provider: ocrProvider,
+    scan: toScanMetadata(parsed, ocrProvider, {
+      ocr_ms: Math.round(parseStarted - started),
+      parse_ms: Math.round(parseEnded - parseStarted),
+      total_ms: Math.round(performance.now() - started),
+    }),
+    image_url: frontImage,
+    back_image_url: backImage,
+  };
+};
+
+// Parses text copied from an e-mail signature or similar, or the contents of
+// a .vcf file; nothing to OCR
+export const parsePastedText = (text: string, options: ScanOptions): ScannedData => {
+  const pasted = { text, confidence: 1, layout: [] };
+  if (!hasText(pasted)) {
+    throw new Error('Paste the text of a card or signature first');
+  }
+  const started = performance.now();
+  const code = parseCardCode(text, options.defaultRegion);
+  const parsed = code ? { ...code, raw_text: text } : parse(pasted, options);
+  const elapsed = Math.round(performance.now() - started);
+  return {
+    ...parsed,
+    source: 'text',
+    scan: toScanMetadata(parsed, null, { ocr_ms: 0, parse_ms: elapsed, total_ms: elapsed }),
+  };
+};
@@ -0,0 +1,128 @@
+import { formatAddress, type PhoneEntry } from '@/lib/card-parser';
+import { joinNotes, type ContactData } from '@/lib/contacts';
+
+type SavedContact = ContactData & { id: string };
+
+// Fields where one contact's value wins. A card side brings its image and
+// the text read from it; the address brings all of its parts.
+export type SingleMergeField = 'name' | 'company' | 'job_title' | 'address' | 'front' | 'back';
+
+// Fields where any of the values can be kept
+export type ListMergeField = 'phones' | 'emails' | 'websites';
+
+export const SINGLE_MERGE_FIELDS: { field: SingleMergeField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'company', label: 'Company' },
+  { field: 'job_title', label: 'Job Title' },
+  { field: 'address', label: 'Address' },
+  { field: 'front', label: 'Card Front' },
+  { field: 'back', label: 'Card Back' },
+];
+
+export const LIST_MERGE_FIELDS: { field: ListMergeField; label: string }[] = [
+  { field: 'phones', label: 'Phone Numbers' },
+  { field: 'emails', label: 'E-mails' },
+  { field: 'websites', label: 'Websites' },
+];
+
+export interface MergeChoices {
+  // The contact that survives; the others are deleted
+  keep: string;
+  // Contact id whose value wins, per field
+  single: Record<SingleMergeField, string>;
+  // Keys of the values kept, per field
+  lists: Record<ListMergeField, string[]>;
+  notes: string;
+}
+
+export interface ListValue {
+  key: string;
+  label: string;
+}
+
+const phoneKey = (phone: PhoneEntry) => phone.e164 ?? phone.number.replace(/[^\d+]/g, '');
+
+// What a contact shows for a field, for comparing and display; empty when unset
+export const singleValue = (contact: ContactData, field: SingleMergeField) => {
+  switch (field) {
+    case 'address':
+      return contact.location?.trim() || formatAddress(contact.address ?? {});
+    case 'front':
+      return contact.image_url || contact.raw_text?.trim() || '';
+    case 'back':
+      return contact.back_image_url || contact.back_raw_text?.trim() || '';
+    default:
+      return contact[field]?.trim() ?? '';
+  }
+};
+
+// A contact's values for a list field, keyed so the same number or address
+// written differently counts once
+export const listValues = (contact: ContactData, field: ListMergeField): ListValue[] =>
+  field === 'phones'
+    ? (contact.phones ?? []).map(phone => ({ key: phoneKey(phone), label: phone.number }))
+    : (contact[field] ?? []).map(value => ({ key: value.trim().toLowerCase(), label: value }));
+
+// Whether the contacts disagree on a field, so the user has to pick
+export const isConflict = (contacts: ContactData[], field: SingleMergeField) =>
+  new Set(contacts.map(contact => singleValue(contact, field)).filter(Boolean)).size > 1;
+
+// Starts from the first contact, filling its gaps from the others, with every
+// number, e-mail and website kept
+export const initialChoices = (contacts: SavedContact[]): MergeChoices => {
+  const firstWith = (field: SingleMergeField) =>
+    (contacts.find(contact => singleValue(contact, field)) ?? contacts[0]).id;
+  const allKeys = (field: ListMergeField) =>
+    [...new Set(contacts.flatMap(contact => listValues(contact, field).map(value => value.key)))];
+
+  return {
+    keep: contacts[0].id,
+    single: {
+      name: firstWith('name'),
+      company: firstWith('company'),
+      job_title: firstWith('job_title'),
+      address: firstWith('address'),
+      front: firstWith('front'),
+      back: firstWith('back'),
+    },
+    lists: { phones: allKeys('phones'), emails: allKeys('emails'), websites: allKeys('websites') },
+    notes: joinNotes(contacts.map(contact => contact.notes)) ?? '',
+  };
+};
+
+// The surviving contact as the choices describe it
+export const applyChoices = (contacts: SavedContact[], choices: MergeChoices): ContactData => {
+  const from = (field: SingleMergeField) =>
+    contacts.find(contact => contact.id === choices.single[field]) ?? contacts[0];
+  const kept = <T,>(field: ListMergeField, values: (contact: SavedContact) => T[], key: (value: T) => string) => {
+    const seen = new Set<string>();
+    return contacts.flatMap(values).filter(value => {
+      const valueKey = key(value);
+      if (!choices.lists[field].includes(valueKey) || seen.has(valueKey)) return false;
+      seen.add(valueKey);
+      return true;
+    });
+  };
+  const address = from('address');
+  const front = from('front');
+  const back = from('back');
+
+  return {
+    ...(contacts.find(contact => contact.id === choices.keep) ?? contacts[0]),
+    name: from('name').name,
+    company: from('company').company,
+    job_title: from('job_title').job_title,
+    location: address.location,
+    address: address.address,
+    image_url: front.image_url ?? null,
+    raw_text: front.raw_text,
+    // Who read the card whose image and text are kept
+    ocr_provider: front.ocr_provider ?? null,
+    back_image_url: back.back_image_url ?? null,
+    back_raw_text: back.back_raw_text,
+    phones: kept('phones', contact => contact.phones ?? [], phoneKey),
+    emails: kept('emails', contact => contact.emails ?? [], value => value.trim().toLowerCase()),
+    websites: kept('websites', contact => contact.websites ?? [], value => value.trim().toLowerCase()),
+    notes: choices.notes,
+  };
+};
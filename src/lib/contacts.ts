@@ -0,0 +1,401 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isDataUrl, removeCardImages, uploadCardImage } from '@/lib/card-images';
+import type { ScanSource } from '@/lib/card-scan';
+import { correctedFields, toCardValues, type CardValues, type ScanMetadataDraft } from '@/lib/scan-metadata';
+import {
+  formatAddress,
+  normalisePhone,
+  splitAddress,
+  type FieldScores,
+  type PhoneEntry,
+  type PhoneType,
+  type PostalAddress,
+} from '@/lib/card-parser';
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  mobile: 'Mobile',
+  office: 'Office',
+  fax: 'Fax',
+  other: 'Other',
+};
+
+// "Mobile: +91 98450 12345; Fax: +91 80 4000 1234" for exports and previews
+export const formatPhoneList = (phones: PhoneEntry[]) =>
+  phones.map(phone => `${PHONE_TYPE_LABELS[phone.type] ?? 'Other'}: ${phone.number}`).join('; ');
+
+// A contact as edited before saving: a scan, or a saved row being edited
+export interface ContactData {
+  id?: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  company?: string;
+  job_title?: string;
+  website?: string;
+  location?: string;
+  address?: PostalAddress;
+  address_street?: string | null;
+  address_city?: string | null;
+  address_region?: string | null;
+  address_postal_code?: string | null;
+  address_country?: string | null;
+  phones?: PhoneEntry[];
+  emails?: string[];
+  websites?: string[];
+  raw_text?: string;
+  back_raw_text?: string;
+  notes?: string | null;
+  // Left out when the tags weren't loaded, so saving leaves them as they are
+  tag_ids?: string[];
+  image_url?: string | null;
+  back_image_url?: string | null;
+  source?: ScanSource;
+  ocr_provider?: string | null;
+  scan?: ScanMetadataDraft;
+  confidence?: number;
+  field_scores?: FieldScores;
+}
+
+// Contacts saved before multi-value support only carry the single columns
+const withValueLists = (data: ContactData): ContactData => ({
+  ...data,
+  phones: data.phones?.length ? data.phones : data.phone ? [{ type: 'other', number: data.phone }] : [],
+  emails: data.emails?.length ? data.emails : data.email ? [data.email] : [],
+  websites: data.websites?.length ? data.websites : data.website ? [data.website] : [],
+});
+
+// Saved contacts carry the address in columns, scans as `address`; contacts
+// saved before structured addresses only have the `location` line
+const withAddressParts = (data: ContactData, region?: string | null): ContactData => {
+  const stored: PostalAddress = {
+    street: data.address_street ?? undefined,
+    city: data.address_city ?? undefined,
+    region: data.address_region ?? undefined,
+    postal_code: data.address_postal_code ?? undefined,
+    country: data.address_country ?? undefined,
+  };
+  const address = Object.values(stored).some(Boolean)
+    ? stored
+    : data.address ?? (data.location ? splitAddress(data.location.split('\n'), region) : {});
+  return { ...data, address };
+};
+
+// Fills in the value lists and address parts the editors work on
+export const toContactDraft = (data: ContactData, region?: string | null) =>
+  withAddressParts(withValueLists(data), region);
+
+// The scan_metadata values recording how a contact was scanned, against the
+// values the user saved
+const toScanMetadataRow = (source: string | null, scan: ScanMetadataDraft, finalValues: CardValues) => ({
+  source,
+  ocr_provider: scan.ocr_provider,
+  confidence: scan.confidence,
+  field_scores: scan.field_scores,
+  suggestions: scan.suggestions,
+  final_values: finalValues,
+  corrected_fields: correctedFields(scan.suggestions, finalValues),
+  ocr_ms: scan.timing.ocr_ms,
+  parse_ms: scan.timing.parse_ms,
+  total_ms: scan.timing.total_ms,
+  review_ms: Date.now() - scan.scanned_at,
+});
+
+// Records how a new contact was scanned. The contact is already saved, so a
+// failure here is logged rather than thrown.
+const saveScanMetadata = async (
+  userId: string,
+  contactId: string,
+  source: string | null,
+  scan: ScanMetadataDraft,
+  finalValues: CardValues
+) => {
+  const { error } = await supabase.from('scan_metadata').insert([{
+    contact_id: contactId,
+    user_id: userId,
+    ...toScanMetadataRow(source, scan, finalValues),
+  }]);
+  if (error) console.error('Scan metadata error:', error);
+};
+
+// The contacts columns for a draft: value lists cleaned up, phones
+// normalised and the first of each list copied to the single columns
+const toContactRow = (formData: ContactData, defaultRegion?: string | null) => {
+  // Scan details are kept in scan_metadata, not on the contact, and tags in
+  // contact_tags
+  const {
+    field_scores: _fieldScores,
+    confidence: _confidence,
+    scan: _scan,
+    address: _address,
+    tag_ids: _tagIds,
+    ...contactFields
+  } = formData;
+  const address = formData.address ?? {};
+  const addressPart = (part: keyof PostalAddress) => address[part]?.trim() || null;
+  const phones: PhoneEntry[] = (formData.phones ?? [])
+    .filter(phone => phone.number.trim())
+    .map(phone => {
+      const { number, e164 } = normalisePhone(phone.number, defaultRegion);
+      return e164 ? { type: phone.type, number, e164 } : { type: phone.type, number };
+    });
+  const emails = (formData.emails ?? []).map(email => email.trim()).filter(Boolean);
+  const websites = (formData.websites ?? []).map(website => website.trim()).filter(Boolean);
+  return {
+    ...contactFields,
+    phones,
+    emails,
+    websites,
+    phone: phones[0]?.number ?? null,
+    phone_e164: phones[0]?.e164 ?? null,
+    email: emails[0] ?? null,
+    website: websites[0] ?? null,
+    location: formData.location?.trim() || formatAddress(address) || null,
+    address_street: addressPart('street'),
+    address_city: addressPart('city'),
+    address_region: addressPart('region'),
+    address_postal_code: addressPart('postal_code'),
+    address_country: addressPart('country'),
+    notes: formData.notes?.trim() || null,
+  };
+};
+
+// Adds tags to a contact, keeping the ones it has
+const addContactTags = async (contactId: string, tagIds: string[]) => {
+  if (!tagIds.length) return;
+  const { error } = await supabase
+    .from('contact_tags')
+    .upsert(tagIds.map(tagId => ({ contact_id: contactId, tag_id: tagId })), { ignoreDuplicates: true });
+  if (error) throw error;
+};
+
+// Gives a contact exactly these tags
+const setContactTags = async (contactId: string, tagIds: string[]) => {
+  let removal = supabase.from('contact_tags').delete().eq('contact_id', contactId);
+  if (tagIds.length) removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  const { error } = await removal;
+  if (error) throw error;
+  await addContactTags(contactId, tagIds);
+};
+
+// Uploads the card images that are still data URLs and returns the stored
+// paths of both sides. New paths are added to `uploaded`.
+const storeCardImages = (userId: string, data: ContactData, uploaded: string[]) => {
+  const storeImage = async (image?: string | null) => {
+    if (!isDataUrl(image)) return image ?? null;
+    const path = await uploadCardImage(userId, image);
+    uploaded.push(path);
+    return path;
+  };
+  return Promise.all([storeImage(data.image_url), storeImage(data.back_image_url)]);
+};
+
+// Uploads any unsaved card images, then inserts or updates the contact.
+// Throws on failure, after removing the images this save uploaded.
+export const saveContact = async (userId: string, formData: ContactData, defaultRegion?: string | null) => {
+  // Images uploaded by this save, removed again if the save fails
+  const uploaded: string[] = [];
+  try {
+    const [imagePath, backImagePath] = await storeCardImages(userId, formData, uploaded);
+
+    const contactData = {
+      ...toContactRow(formData, defaultRegion),
+      image_url: imagePath,
+      back_image_url: backImagePath,
+      user_id: userId,
+    };
+
+    if (formData.id) {
+      // Update existing contact
+      const { error } = await supabase
+        .from('contacts')
+        .update(contactData)
+        .eq('id', formData.id);
+
+      if (error) throw error;
+      if (formData.tag_ids) await setContactTags(formData.id, formData.tag_ids);
+    } else {
+      // Create new contact
+      const { data, error } = await supabase
+        .from('contacts')
+        .insert([contactData])
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      if (formData.tag_ids) await setContactTags(data.id, formData.tag_ids);
+      if (formData.scan) {
+        await saveScanMetadata(
+          userId,
+          data.id,
+          contactData.source ?? null,
+          formData.scan,
+          toCardValues({ ...contactData, address: formData.address ?? {} })
+        );
+      }
+    }
+  } catch (error) {
+    await removeCardImages(uploaded);
+    throw error;
+  }
+};
+
+// The user's saved contacts, as drafts, for comparing against a new one
+export const loadContacts = async (userId: string, region?: string | null) => {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(row => toContactDraft(row as unknown as ContactData, region) as ContactData & { id: string });
+};
+
+// Each contact's notes once, in order, a blank line apart
+export const joinNotes = (notes: (string | null | undefined)[]) =>
+  [...new Set(notes.map(note => note?.trim()).filter(Boolean))].join('\n\n') || undefined;
+
+const hasAddress = (address?: PostalAddress) => !!address && Object.values(address).some(part => part?.trim());
+
+// Adds what another card says to a saved contact: empty fields are filled in,
+// and numbers, e-mails and websites the contact lacks are appended. The saved
+// contact's own values always win.
+export const combineContacts = (existing: ContactData, incoming: ContactData): ContactData => {
+  const phoneKey = (phone: PhoneEntry) => phone.e164 ?? phone.number.replace(/[^\d+]/g, '');
+  const phones = [...(existing.phones ?? [])];
+  for (const phone of incoming.phones ?? []) {
+    if (!phones.some(saved => phoneKey(saved) === phoneKey(phone))) phones.push(phone);
+  }
+  const union = (saved: string[] = [], added: string[] = []) =>
+    [...saved, ...added.filter(value => !saved.some(item => item.toLowerCase() === value.toLowerCase()))];
+  const keepAddress = hasAddress(existing.address) || !!existing.location?.trim();
+
+  return {
+    ...existing,
+    name: existing.name?.trim() ? existing.name : incoming.name,
+    company: existing.company?.trim() ? existing.company : incoming.company,
+    job_title: existing.job_title?.trim() ? existing.job_title : incoming.job_title,
+    location: keepAddress ? existing.location : incoming.location,
+    address: keepAddress ? existing.address : incoming.address,
+    phones,
+    emails: union(existing.emails, incoming.emails),
+    websites: union(existing.websites, incoming.websites),
+    notes: joinNotes([existing.notes, incoming.notes]),
+    image_url: existing.image_url ?? incoming.image_url,
+    back_image_url: existing.back_image_url ?? incoming.back_image_url,
+  };
+};
+
+// Saves a new card onto a contact already in the address book instead of
+// creating a second one. The values, tags and scan record are written by
+// merge_contacts() in one transaction, so the card can be taken off again
+// with undoContactMerge(). Returns the merge id.
+export const mergeIntoContact = async (
+  userId: string,
+  existing: ContactData & { id: string },
+  incoming: ContactData,
+  defaultRegion?: string | null
+) => {
+  const draft = toContactDraft(incoming, defaultRegion);
+  const merged = combineContacts(toContactDraft(existing, defaultRegion), draft);
+  // Images uploaded for the card, removed again if the merge fails
+  const uploaded: string[] = [];
+  try {
+    const [imagePath, backImagePath] = await storeCardImages(userId, merged, uploaded);
+    const { data, error } = await supabase.rpc('merge_contacts', {
+      keep_id: existing.id,
+      merged_values: { ...toContactRow(merged, defaultRegion), image_url: imagePath, back_image_url: backImagePath },
+      add_tag_ids: incoming.tag_ids ?? [],
+      scan: incoming.scan ? toScanMetadataRow(incoming.source ?? null, incoming.scan, toCardValues(draft)) : null,
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    await removeCardImages(uploaded);
+    throw error;
+  }
+};
+
+// How long a merge can be undone for, as enforced by undo_contact_merge()
+export const MERGE_UNDO_MS = 10 * 60 * 1000;
+
+// Deletes the card images left unused by merges that can no longer be
+// undone. The undo records go first, so an undo can't bring back a contact
+// whose images are gone. Runs in the background: failures are logged.
+export const settleContactMerges = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('contact_merges')
+    .delete()
+    .eq('user_id', userId)
+    .lte('created_at', new Date(Date.now() - MERGE_UNDO_MS).toISOString())
+    .select('unused_images');
+
+  if (error) {
+    console.error('Merge cleanup error:', error);
+    return;
+  }
+  await removeCardImages((data ?? []).flatMap(merge => merge.unused_images));
+};
+
+// Writes `merged` onto the contact `keepId` and deletes the other contacts in
+// one transaction, moving their scan history across. Card images no longer
+// used are only deleted once the merge can't be undone: when the undo window
+// ends, or by settleContactMerges() on the next visit if the app was closed.
+// Returns the merge id.
+export const mergeContacts = async (
+  userId: string,
+  keepId: string,
+  merged: ContactData,
+  contacts: (ContactData & { id: string })[],
+  defaultRegion?: string | null
+) => {
+  const row = toContactRow(merged, defaultRegion);
+  const kept = new Set([merged.image_url, merged.back_image_url]);
+  const unusedImages = contacts
+    .flatMap(contact => [contact.image_url, contact.back_image_url])
+    .filter((path): path is string => !!path && !kept.has(path));
+
+  const { data, error } = await supabase.rpc('merge_contacts', {
+    keep_id: keepId,
+    merged_values: { ...row, image_url: merged.image_url ?? null, back_image_url: merged.back_image_url ?? null },
+    remove_ids: contacts.map(contact => contact.id).filter(id => id !== keepId),
+    unused_images: [...new Set(unusedImages)],
+  });
+
+  if (error) throw error;
+  // A little after the window, so the server no longer allows the undo
+  setTimeout(() => settleContactMerges(userId), MERGE_UNDO_MS + 30 * 1000);
+  return data;
+};
+
+export const undoContactMerge = async (mergeId: string) => {
+  const { error } = await supabase.rpc('undo_contact_merge', { merge_id: mergeId });
+  if (error) throw error;
+};
+
+export interface RecentMerge {
+  id: string;
+  name: string;
+  // Contacts merged, counting the one kept; 1 when a card was added to it
+  count: number;
+  created_at: string;
+}
+
+// Merges that can still be undone, newest first
+export const loadRecentMerges = async (userId: string): Promise<RecentMerge[]> => {
+  const { data, error } = await supabase
+    .from('contact_merges')
+    .select('id, kept_before, removed, created_at')
+    .eq('user_id', userId)
+    .gt('created_at', new Date(Date.now() - MERGE_UNDO_MS).toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(merge => ({
+    id: merge.id,
+    name: (merge.kept_before as ContactData).name || 'Unnamed Contact',
+    count: (merge.removed as unknown[]).length + 1,
+    created_at: merge.created_at,
+  }));
+};
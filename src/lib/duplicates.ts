@@ -0,0 +1,222 @@
+import { normalisePhone } from '@/lib/card-parser';
+import type { ContactData } from '@/lib/contacts';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateMatch<T extends ContactData = ContactData> {
+  contact: T;
+  reasons: DuplicateReason[];
+  // 0-1; an e-mail address in common is as sure as it gets
+  score: number;
+}
+
+export interface DuplicatePair<T extends ContactData = ContactData> {
+  first: T;
+  second: T;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same e-mail',
+  phone: 'Same phone number',
+  name: 'Similar name and company',
+};
+
+const NAME_THRESHOLD = 0.85;
+const COMPANY_THRESHOLD = 0.7;
+
+// "José Pérez, Dr." -> "jose perez"
+const foldText = (value?: string | null) =>
+  (value ?? '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\b(?:dr|mr|mrs|ms|prof)\b\.?/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Legal forms differ between cards of the same company ("Acme" vs "Acme Ltd.")
+const foldCompany = (value?: string | null) =>
+  foldText(value).replace(/\b(?:inc|ltd|llc|llp|plc|gmbh|corp|co|pvt|private|limited|ag|sa|bv)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+const bigrams = (value: string) => {
+  const compact = ` ${value} `;
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+};
+
+// Dice coefficient over character pairs, with word order ignored so
+// "Tanaka Hiroshi" matches "Hiroshi Tanaka"
+export const similarity = (a: string, b: string) => {
+  const left = a.split(' ').sort().join(' ');
+  const right = b.split(' ').sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of leftPairs) {
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of rightPairs.values()) total += count;
+  return (2 * shared) / total;
+};
+
+// "Jane.Doe+events@Example.com" -> "jane.doe@example.com"
+const normaliseEmail = (email: string) => email.trim().toLowerCase().replace(/\+[^@]*@/, '@');
+
+// What a contact is compared by, worked out once per contact
+interface MatchKeys {
+  emails: Set<string>;
+  phones: Set<string>;
+  name: string;
+  company: string;
+}
+
+const matchKeys = (contact: ContactData, region?: string | null): MatchKeys => {
+  const emails = contact.emails?.length ? contact.emails : contact.email ? [contact.email] : [];
+  const phones = contact.phones?.length ? contact.phones : contact.phone ? [{ number: contact.phone }] : [];
+  return {
+    emails: new Set(emails.filter(Boolean).map(normaliseEmail)),
+    phones: new Set(
+      phones
+        .map(phone => ('e164' in phone && phone.e164) || normalisePhone(phone.number, region).e164)
+        .filter((e164): e164 is string => !!e164)
+    ),
+    name: foldText(contact.name),
+    company: foldCompany(contact.company),
+  };
+};
+
+const shares = (a: Set<string>, b: Set<string>) => [...a].some(value => b.has(value));
+
+const compareKeys = (a: MatchKeys, b: MatchKeys) => {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (shares(a.emails, b.emails)) {
+    reasons.push('email');
+    score = 1;
+  }
+  if (shares(a.phones, b.phones)) {
+    reasons.push('phone');
+    score = Math.max(score, 0.9);
+  }
+  if (a.name && b.name && a.company && b.company) {
+    const name = similarity(a.name, b.name);
+    const company = similarity(a.company, b.company);
+    if (name >= NAME_THRESHOLD && company >= COMPANY_THRESHOLD) {
+      reasons.push('name');
+      score = Math.max(score, 0.5 * name + 0.3 * company);
+    }
+  }
+
+  return reasons.length ? { reasons, score } : null;
+};
+
+// Saved contacts that look like the same person as `draft`, best match first
+export const findDuplicates = <T extends ContactData>(draft: ContactData, contacts: T[], region?: string | null): DuplicateMatch<T>[] => {
+  const keys = matchKeys(draft, region);
+  return contacts
+    .filter(contact => contact.id !== draft.id)
+    .map(contact => ({ contact, match: compareKeys(keys, matchKeys(contact, region)) }))
+    .filter((entry): entry is { contact: T; match: NonNullable<ReturnType<typeof compareKeys>> } => !!entry.match)
+    .map(({ contact, match }) => ({ contact, ...match }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Every likely pair in the address book. Contacts are only compared when they
+// share an e-mail, a number or the start of a name word, so this stays fast
+// for large lists.
+export const findDuplicatePairs = <T extends ContactData & { id: string }>(contacts: T[], region?: string | null): DuplicatePair<T>[] => {
+  const keys = contacts.map(contact => matchKeys(contact, region));
+  const buckets = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    const tokens = [
+      ...[...key.emails].map(email => `e:${email}`),
+      ...[...key.phones].map(phone => `p:${phone}`),
+      ...key.name.split(' ').filter(word => word.length >= 2).map(word => `n:${word.slice(0, 3)}`),
+    ];
+    for (const token of new Set(tokens)) {
+      buckets.set(token, [...(buckets.get(token) ?? []), index]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair<T>[] = [];
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [indexes[i], indexes[j]];
+        const pairKey = `${Math.min(a, b)}:${Math.max(a, b)}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = compareKeys(keys[a], keys[b]);
+        if (match) pairs.push({ first: contacts[a], second: contacts[b], ...match });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+export interface DuplicateGroup<T extends ContactData & { id: string } = ContactData & { id: string }> {
+  contacts: T[];
+  pairs: DuplicatePair<T>[];
+}
+
+// Joins overlapping pairs, so three cards of one person are merged together
+// rather than two at a time
+export const groupDuplicates = <T extends ContactData & { id: string }>(pairs: DuplicatePair<T>[]): DuplicateGroup<T>[] => {
+  const groupOf = new Map<string, DuplicateGroup<T>>();
+  const groups: DuplicateGroup<T>[] = [];
+  for (const pair of pairs) {
+    const left = groupOf.get(pair.first.id);
+    const right = groupOf.get(pair.second.id);
+    let group = left ?? right;
+    if (!group) {
+      group = { contacts: [], pairs: [] };
+      groups.push(group);
+    }
+    if (left && right && left !== right) {
+      left.contacts.push(...right.contacts);
+      left.pairs.push(...right.pairs);
+      right.contacts.forEach(contact => groupOf.set(contact.id, left));
+      groups.splice(groups.indexOf(right), 1);
+    }
+    for (const contact of [pair.first, pair.second]) {
+      if (groupOf.get(contact.id) === group) continue;
+      group.contacts.push(contact);
+      groupOf.set(contact.id, group);
+    }
+    group.pairs.push(pair);
+  }
+  return groups;
+};
+
+// Key for remembering that the user said two contacts are different people
+export const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const dismissedKey = (userId: string) => `duplicates-dismissed:${userId}`;
+
+// Pairs the user marked as different people, kept on this device
+export const dismissedPairs = (userId: string): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(dismissedKey(userId)) ?? '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+export const dismissPair = (userId: string, key: string) => {
+  const dismissed = dismissedPairs(userId).add(key);
+  localStorage.setItem(dismissedKey(userId), JSON.stringify([...dismissed]));
+};
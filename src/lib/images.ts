@@ -0,0 +1,28 @@
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = src;
+  });
+
+export const imageSize = async (src: string) => {
+  const image = await loadImage(src);
+  return { width: image.naturalWidth, height: image.naturalHeight };
+};
+
+// Scales an image down to fit `maxSize` on its longer edge and re-encodes it
+// as JPEG, so card photos stay small enough to keep with the contact
+export const compressImage = async (src: string, maxSize = 1280, quality = 0.8) => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return src;
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,67 @@
+// Languages offered for scanning. `code` is the BCP-47 tag Google Vision uses
+// for hints and reports as the detected locale; `tesseract` is the trained
+// data name Tesseract loads.
+export interface OcrLanguage {
+  code: string;
+  label: string;
+  tesseract: string;
+}
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'en', label: 'English', tesseract: 'eng' },
+  { code: 'hi', label: 'Hindi', tesseract: 'hin' },
+  { code: 'te', label: 'Telugu', tesseract: 'tel' },
+  { code: 'ta', label: 'Tamil', tesseract: 'tam' },
+  { code: 'kn', label: 'Kannada', tesseract: 'kan' },
+  { code: 'ml', label: 'Malayalam', tesseract: 'mal' },
+  { code: 'mr', label: 'Marathi', tesseract: 'mar' },
+  { code: 'bn', label: 'Bengali', tesseract: 'ben' },
+  { code: 'gu', label: 'Gujarati', tesseract: 'guj' },
+  { code: 'zh-Hans', label: 'Chinese (Simplified)', tesseract: 'chi_sim' },
+  { code: 'zh-Hant', label: 'Chinese (Traditional)', tesseract: 'chi_tra' },
+  { code: 'ja', label: 'Japanese', tesseract: 'jpn' },
+  { code: 'ko', label: 'Korean', tesseract: 'kor' },
+  { code: 'ar', label: 'Arabic', tesseract: 'ara' },
+  { code: 'ru', label: 'Russian', tesseract: 'rus' },
+  { code: 'fr', label: 'French', tesseract: 'fra' },
+  { code: 'de', label: 'German', tesseract: 'deu' },
+  { code: 'es', label: 'Spanish', tesseract: 'spa' },
+  { code: 'it', label: 'Italian', tesseract: 'ita' },
+  { code: 'pt', label: 'Portuguese', tesseract: 'por' },
+];
+
+// Stands for "let the OCR engine work it out" in language pickers
+export const AUTO_LANGUAGE = 'auto';
+
+// Vision reports bare or regional tags ("zh", "ja-JP"); match on the primary
+// subtag, except that Chinese needs its script to pick the trained data
+export const findOcrLanguage = (tag?: string | null) => {
+  if (!tag) return undefined;
+  const exact = OCR_LANGUAGES.find(language => language.code.toLowerCase() === tag.toLowerCase());
+  if (exact) return exact;
+
+  const [primary, ...rest] = tag.toLowerCase().split('-');
+  if (primary === 'zh') {
+    return OCR_LANGUAGES.find(language => language.code === (rest.some(part => ['hant', 'tw', 'hk', 'mo'].includes(part)) ? 'zh-Hant' : 'zh-Hans'));
+  }
+  return OCR_LANGUAGES.find(language => language.code === primary);
+};
+
+const DETECTED_LANGUAGE_KEY = 'ocr-detected-language';
+
+// The last language Vision detected, so a Tesseract fallback in "auto" mode
+// can load the same trained data
+export const rememberDetectedLanguage = (tag?: string | null) => {
+  const language = findOcrLanguage(tag);
+  if (language) localStorage.setItem(DETECTED_LANGUAGE_KEY, language.code);
+};
+
+// Tesseract needs its languages up front. English is always loaded since
+// emails and websites are printed in Latin script on almost every card.
+export const tesseractLanguages = (selected: string) => {
+  const tags = selected === AUTO_LANGUAGE
+    ? [localStorage.getItem(DETECTED_LANGUAGE_KEY), navigator.language]
+    : [selected];
+  const names = tags.map(tag => findOcrLanguage(tag)?.tesseract).filter((name): name is string => !!name);
+  return Array.from(new Set(['eng', ...names]));
+};
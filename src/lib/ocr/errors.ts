@@ -0,0 +1,2 @@
+// Kept with the edge functions, which send these codes
+export * from '../../../supabase/functions/_shared/ocr-errors.ts';
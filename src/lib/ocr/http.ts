@@ -0,0 +1,41 @@
+import { imageSize } from '@/lib/images';
+import { AUTO_LANGUAGE } from '@/lib/ocr-languages';
+import { toTextBlocks, type PixelLine } from '@/lib/card-parser';
+import type { OcrProvider } from './types';
+
+// What the endpoint sends back. `lines` are optional pixel boxes; with them
+// the parser can use the card's layout.
+interface HttpOcrResponse {
+  text?: string;
+  confidence?: number;
+  lines?: PixelLine[];
+}
+
+// Any engine behind a small JSON API: POST { image, language } with the image
+// as a data URL, answered with { text, confidence?, lines? }
+export const createHttpProvider = (url: string): OcrProvider => ({
+  id: 'http',
+  recognise: async ({ image, language, signal }) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ image, language: language === AUTO_LANGUAGE ? null : language }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`OCR endpoint responded ${response.status}`);
+    }
+
+    const data: HttpOcrResponse = await response.json();
+    if (typeof data.text !== 'string') {
+      throw new Error('OCR endpoint returned no text');
+    }
+    const { width, height } = await imageSize(image);
+    return {
+      text: data.text,
+      confidence: data.confidence ?? 0.8,
+      layout: data.lines?.length ? toTextBlocks(data.lines, width, height) : [],
+      provider: 'http',
+    };
+  },
+});
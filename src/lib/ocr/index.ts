@@ -0,0 +1,153 @@
+import type { Json } from '@/integrations/supabase/types';
+import { preprocessForOcr } from '@/lib/card-image';
+import { OcrError, toOcrError } from './errors';
+import { createHttpProvider } from './http';
+import { createTesseractProvider } from './tesseract';
+import { createVisionProvider } from './vision';
+import type { OcrProgress, OcrProvider, OcrProviderId, OcrProviderSetting, OcrSettings, RecognisedText } from './types';
+
+export type { OcrProgress, OcrProvider, OcrProviderId, OcrProviderSetting, OcrSettings, RecognisedText } from './types';
+export { OcrError, type OcrErrorCode } from './errors';
+export { warmUpTesseract } from './tesseract';
+
+export const OCR_PROVIDER_LABELS: Record<OcrProviderId, string> = {
+  vision: 'Google Vision',
+  tesseract: 'Tesseract (offline)',
+  http: 'Custom HTTP endpoint',
+};
+
+// Vision first, Tesseract when the edge function is unavailable
+export const DEFAULT_OCR_SETTINGS: OcrSettings = {
+  providers: [
+    { id: 'vision', enabled: true, timeout_ms: 20000 },
+    { id: 'tesseract', enabled: true, timeout_ms: 60000 },
+    { id: 'http', enabled: false, timeout_ms: 20000 },
+  ],
+  http_url: null,
+};
+
+const isProviderId = (id: unknown): id is OcrProviderId =>
+  typeof id === 'string' && id in OCR_PROVIDER_LABELS;
+
+// Reads the profile's `ocr_settings`, falling back to the defaults for
+// anything missing. Providers added later are appended, disabled if the user
+// has already ordered the list.
+export const toOcrSettings = (stored: Json | null | undefined): OcrSettings => {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return DEFAULT_OCR_SETTINGS;
+
+  const saved = (Array.isArray(stored.providers) ? stored.providers : [])
+    .filter((entry): entry is { [key: string]: Json } => !!entry && typeof entry === 'object' && !Array.isArray(entry))
+    .filter(entry => isProviderId(entry.id));
+  const providers: OcrProviderSetting[] = [];
+  for (const entry of saved) {
+    const fallback = DEFAULT_OCR_SETTINGS.providers.find(provider => provider.id === entry.id)!;
+    if (providers.some(provider => provider.id === fallback.id)) continue;
+    providers.push({
+      id: fallback.id,
+      enabled: typeof entry.enabled === 'boolean' ? entry.enabled : fallback.enabled,
+      timeout_ms: typeof entry.timeout_ms === 'number' && entry.timeout_ms > 0 ? entry.timeout_ms : fallback.timeout_ms,
+    });
+  }
+  for (const fallback of DEFAULT_OCR_SETTINGS.providers) {
+    if (!providers.some(provider => provider.id === fallback.id)) {
+      providers.push({ ...fallback, enabled: saved.length ? false : fallback.enabled });
+    }
+  }
+
+  return {
+    providers,
+    http_url: typeof stored.http_url === 'string' ? stored.http_url : null,
+  };
+};
+
+export interface RecogniseOptions {
+  // BCP-47 tag or AUTO_LANGUAGE
+  language: string;
+  ocr?: OcrSettings;
+  // Send the pre-processed image to Google Vision as well as Tesseract
+  visionPreprocess?: boolean;
+  // Cancels the scan: the running provider is stopped and no other is tried
+  signal?: AbortSignal;
+  onProgress?: (progress: OcrProgress) => void;
+  // A provider failed and the next one is being tried
+  onProviderError?: (provider: OcrProviderId, error: OcrError) => void;
+}
+
+const createProvider = (id: OcrProviderId, settings: OcrSettings, options: RecogniseOptions): OcrProvider | null => {
+  switch (id) {
+    case 'vision':
+      return createVisionProvider({ preprocess: options.visionPreprocess });
+    case 'tesseract':
+      return createTesseractProvider();
+    case 'http':
+      return settings.http_url ? createHttpProvider(settings.http_url) : null;
+  }
+};
+
+// Gives up on a provider after its timeout. Providers that cannot be
+// interrupted (the edge function call) finish in the background and are ignored.
+const withTimeout = async (
+  provider: OcrProvider,
+  timeoutMs: number,
+  cancel: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<RecognisedText>
+) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onCancel: (() => void) | undefined;
+  const stopped = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new OcrError('timeout', `${OCR_PROVIDER_LABELS[provider.id]} timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+    onCancel = () => {
+      controller.abort();
+      reject(cancelled());
+    };
+    cancel?.addEventListener('abort', onCancel);
+  });
+  try {
+    return await Promise.race([run(controller.signal), stopped]);
+  } finally {
+    clearTimeout(timer);
+    cancel?.removeEventListener('abort', onCancel!);
+  }
+};
+
+const cancelled = () => new OcrError('cancelled', 'Scan cancelled');
+
+// Tries each enabled provider in the configured order until one reads the card
+export const recogniseText = async (image: string, options: RecogniseOptions): Promise<RecognisedText> => {
+  const settings = options.ocr ?? DEFAULT_OCR_SETTINGS;
+
+  // Cleaned-up copy for OCR, made at most once and only when something reads
+  // it. The original is used when pre-processing fails.
+  let enhanced: Promise<string> | undefined;
+  const enhance = () => (enhanced ??= preprocessForOcr(image)
+    .then(result => result.image)
+    .catch(() => image));
+
+  const chain = settings.providers.filter(provider => provider.enabled);
+  let lastError = new OcrError('provider_error', 'No OCR provider is enabled');
+  for (const setting of chain) {
+    const provider = createProvider(setting.id, settings, options);
+    if (!provider) continue;
+    if (options.signal?.aborted) throw cancelled();
+    options.onProgress?.({ provider: provider.id, stage: 'recognising', progress: null });
+    try {
+      return await withTimeout(provider, setting.timeout_ms, options.signal, signal =>
+        provider.recognise({ image, language: options.language, enhanced: enhance, signal, onProgress: options.onProgress })
+      );
+    } catch (error) {
+      if (options.signal?.aborted) throw cancelled();
+      lastError = toOcrError(error);
+      options.onProviderError?.(provider.id, lastError);
+      // Out of Vision scans for the month: read offline even if the user has
+      // switched Tesseract off, rather than failing every scan
+      if (lastError.code === 'quota_exceeded' && !chain.some(entry => entry.id === 'tesseract')) {
+        chain.push(DEFAULT_OCR_SETTINGS.providers.find(entry => entry.id === 'tesseract')!);
+      }
+    }
+  }
+  throw lastError;
+};
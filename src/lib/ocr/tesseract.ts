@@ -0,0 +1,149 @@
+import Tesseract from 'tesseract.js';
+import { imageSize } from '@/lib/images';
+import { tesseractLanguages } from '@/lib/ocr-languages';
+import { toTextBlocks, type PixelLine } from '@/lib/card-parser';
+import type { OcrProgress, OcrProvider } from './types';
+
+// Enough to read both sides of a card, or the next card in a batch, while
+// one worker is busy. Each worker holds its own copy of the trained data.
+const MAX_WORKERS = 2;
+
+interface PooledWorker {
+  languages: string;
+  ready: Promise<Tesseract.Worker>;
+  busy: boolean;
+  // Where the current job's progress goes
+  onProgress?: (progress: Omit<OcrProgress, 'provider'>) => void;
+}
+
+const pool: PooledWorker[] = [];
+const waiting: (() => void)[] = [];
+
+const startWorker = (languages: string, report: NonNullable<PooledWorker['onProgress']>) =>
+  Tesseract.createWorker(languages.split('+'), Tesseract.OEM.LSTM_ONLY, {
+    // Trained data is kept in IndexedDB after the first download, so the
+    // offline reader keeps working without a connection
+    cacheMethod: 'write',
+    logger: (m) => report({
+      stage: m.status === 'recognizing text' ? 'recognising' : 'loading',
+      progress: m.progress,
+    }),
+  });
+
+const createPooledWorker = (languages: string): PooledWorker => {
+  const entry: PooledWorker = {
+    languages,
+    busy: false,
+    ready: startWorker(languages, progress => entry.onProgress?.(progress)),
+  };
+  // A worker that failed to start is dropped so the next job can try again
+  entry.ready.catch(() => remove(entry));
+  pool.push(entry);
+  return entry;
+};
+
+const remove = (entry: PooledWorker) => {
+  const index = pool.indexOf(entry);
+  if (index >= 0) pool.splice(index, 1);
+  waiting.shift()?.();
+};
+
+// Resolves when a worker is released or dropped. A job cancelled while
+// queued leaves the queue at once, so it never takes a wake-up meant for
+// a live job.
+const waitForWorker = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const wake = () => {
+      signal.removeEventListener('abort', cancel);
+      resolve();
+    };
+    const cancel = () => {
+      const index = waiting.indexOf(wake);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(signal.reason);
+    };
+    waiting.push(wake);
+    signal.addEventListener('abort', cancel, { once: true });
+  });
+
+// An idle worker for the languages, started if there is room in the pool.
+// Idle workers loaded with other languages make way for it.
+const acquire = async (languages: string, signal: AbortSignal): Promise<PooledWorker> => {
+  for (;;) {
+    signal.throwIfAborted();
+    const idle = pool.find(entry => !entry.busy && entry.languages === languages);
+    if (idle) {
+      idle.busy = true;
+      return idle;
+    }
+    if (pool.length >= MAX_WORKERS) {
+      const stale = pool.find(entry => !entry.busy);
+      if (stale) {
+        remove(stale);
+        stale.ready.then(worker => worker.terminate(), () => undefined);
+      }
+    }
+    if (pool.length < MAX_WORKERS) {
+      const entry = createPooledWorker(languages);
+      entry.busy = true;
+      return entry;
+    }
+    await waitForWorker(signal);
+  }
+};
+
+const release = (entry: PooledWorker) => {
+  entry.busy = false;
+  entry.onProgress = undefined;
+  waiting.shift()?.();
+};
+
+// Starts a worker and loads the language's trained data ahead of the first
+// scan, so opening the scanner pays for it rather than pressing "Scan"
+export const warmUpTesseract = (language: string) => {
+  const languages = tesseractLanguages(language).join('+');
+  if (pool.some(entry => entry.languages === languages) || pool.length >= MAX_WORKERS) return;
+  createPooledWorker(languages).ready.catch(error => console.warn('Tesseract warm-up failed:', error));
+};
+
+const tesseractLines = (blocks: Tesseract.Block[] | null): PixelLine[] =>
+  (blocks ?? []).flatMap(block =>
+    block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.map(line => ({ text: line.text, ...line.bbox, confidence: line.confidence / 100 }))
+    )
+  );
+
+// Tesseract in a pooled Web Worker, on the pre-processed image. Works offline.
+export const createTesseractProvider = (): OcrProvider => ({
+  id: 'tesseract',
+  recognise: async ({ language, enhanced, signal, onProgress }) => {
+    const entry = await acquire(tesseractLanguages(language).join('+'), signal);
+    entry.onProgress = progress => onProgress?.({ provider: 'tesseract', ...progress });
+
+    // Stopping the worker is the only way to interrupt a recognition; the
+    // pool starts a fresh one for the next job
+    const stop = () => {
+      remove(entry);
+      entry.ready.then(worker => worker.terminate(), () => undefined);
+    };
+    signal.addEventListener('abort', stop);
+    try {
+      const worker = await entry.ready;
+      const ocrImage = await enhanced();
+      signal.throwIfAborted();
+      // Asking for line boxes as well as text
+      const result = await worker.recognize(ocrImage, {}, { text: true, blocks: true });
+      const { width, height } = await imageSize(ocrImage);
+      const confidence = result.data.confidence / 100; // Tesseract gives 0-100
+      return {
+        text: result.data.text,
+        confidence,
+        layout: toTextBlocks(tesseractLines(result.data.blocks), width, height),
+        provider: 'tesseract',
+      };
+    } finally {
+      signal.removeEventListener('abort', stop);
+      if (!signal.aborted) release(entry);
+    }
+  },
+});
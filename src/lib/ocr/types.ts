@@ -0,0 +1,50 @@
+import type { TextBlock } from '@/lib/card-parser';
+
+export type OcrProviderId = 'vision' | 'tesseract' | 'http';
+
+// Text read from a card, by OCR or from a PDF's text layer
+export interface RecognisedText {
+  text: string;
+  confidence: number;
+  layout: TextBlock[];
+  // What produced the text: an OCR provider id, or "pdf" for a text layer
+  provider?: string;
+}
+
+// How far a provider has got. `progress` is 0-1, or null when the provider
+// cannot tell (a single request to a server).
+export interface OcrProgress {
+  provider: OcrProviderId;
+  stage: 'loading' | 'recognising';
+  progress: number | null;
+}
+
+export interface OcrRequest {
+  image: string;
+  // BCP-47 tag or AUTO_LANGUAGE
+  language: string;
+  // Thresholded, deskewed copy of the image, made once on first use
+  enhanced: () => Promise<string>;
+  // Aborted when the provider's time is up or the scan is cancelled
+  signal: AbortSignal;
+  onProgress?: (progress: OcrProgress) => void;
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  recognise: (request: OcrRequest) => Promise<RecognisedText>;
+}
+
+// Type aliases rather than interfaces so they can be stored as Json
+export type OcrProviderSetting = {
+  id: OcrProviderId;
+  enabled: boolean;
+  timeout_ms: number;
+};
+
+// Stored on the profile as `ocr_settings`. Providers are tried in list order.
+export type OcrSettings = {
+  providers: OcrProviderSetting[];
+  // Endpoint of the HTTP provider, e.g. a self-hosted engine
+  http_url?: string | null;
+};
@@ -0,0 +1,40 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AUTO_LANGUAGE, rememberDetectedLanguage } from '@/lib/ocr-languages';
+import { OcrError, isOcrErrorCode } from './errors';
+import type { OcrProvider } from './types';
+
+// The function answers failures with a status and { code, error }
+const toVisionError = async (error: unknown) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => null);
+    if (isOcrErrorCode(body?.code)) {
+      return new OcrError(body.code, body.error || 'Vision API failed');
+    }
+  }
+  return new OcrError('provider_error', error instanceof Error ? error.message : 'Vision API failed');
+};
+
+// Google Vision through the `vision-ocr` edge function
+export const createVisionProvider = ({ preprocess = false } = {}): OcrProvider => ({
+  id: 'vision',
+  recognise: async ({ image, language, enhanced }) => {
+    const response = await supabase.functions.invoke('vision-ocr', {
+      body: {
+        imageData: preprocess ? await enhanced() : image,
+        languageHints: language === AUTO_LANGUAGE ? [] : [language],
+      }
+    });
+
+    if (response.error || !response.data?.success) {
+      throw await toVisionError(response.error);
+    }
+    rememberDetectedLanguage(response.data.locale);
+    return {
+      text: response.data.text,
+      confidence: response.data.confidence || 0.8,
+      layout: response.data.blocks ?? [],
+      provider: 'vision',
+    };
+  },
+});
@@ -0,0 +1,70 @@
+import { CARD_FIELDS, type CardField, type FieldScores, type PostalAddress } from '@/lib/card-parser';
+
+// The contact fields a scan fills in, in a form that can be compared: what
+// the parser suggested against what the user saved
+export type CardValues = Partial<Record<CardField, string>> & {
+  phones?: string[];
+  emails?: string[];
+  websites?: string[];
+  address?: PostalAddress;
+};
+
+export type CardValueKey = keyof CardValues;
+
+export interface ScanTiming {
+  // Reading text from the images, QR codes included
+  ocr_ms: number;
+  // Turning the text into fields
+  parse_ms: number;
+  total_ms: number;
+}
+
+// Collected when a card is scanned and saved with the new contact as its
+// `scan_metadata` row
+export interface ScanMetadataDraft {
+  ocr_provider: string | null;
+  confidence: number | null;
+  field_scores: FieldScores;
+  suggestions: CardValues;
+  timing: ScanTiming;
+  // When the scan finished, to time the review
+  scanned_at: number;
+}
+
+interface CardValueSource {
+  phones?: { number: string }[];
+  emails?: string[];
+  websites?: string[];
+  address?: PostalAddress;
+}
+
+const addressParts: (keyof PostalAddress)[] = ['street', 'city', 'region', 'postal_code', 'country'];
+
+export const toCardValues = (data: Partial<Record<CardField, string | null>> & CardValueSource): CardValues => {
+  const values: CardValues = {};
+  for (const field of CARD_FIELDS) {
+    const value = data[field]?.trim();
+    if (value) values[field] = value;
+  }
+
+  const lists = { phones: data.phones?.map(phone => phone.number), emails: data.emails, websites: data.websites };
+  for (const [key, items] of Object.entries(lists) as [keyof typeof lists, string[] | undefined][]) {
+    const kept = (items ?? []).map(item => item.trim()).filter(Boolean);
+    if (kept.length) values[key] = kept;
+  }
+
+  const address: PostalAddress = {};
+  for (const part of addressParts) {
+    const value = data.address?.[part]?.trim();
+    if (value) address[part] = value;
+  }
+  if (Object.keys(address).length) values.address = address;
+
+  return values;
+};
+
+// The fields the user changed before saving
+export const correctedFields = (suggestions: CardValues, final: CardValues): CardValueKey[] => {
+  const keys = new Set([...Object.keys(suggestions), ...Object.keys(final)] as CardValueKey[]);
+  return [...keys].filter(key => JSON.stringify(suggestions[key]) !== JSON.stringify(final[key]));
+};
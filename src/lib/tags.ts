@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const TAG_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'violet', 'pink'] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+// Chip styles per colour, spelled out so Tailwind keeps them
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  amber: 'bg-amber-100 text-amber-800 border-amber-200',
+  green: 'bg-green-100 text-green-800 border-green-200',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  violet: 'bg-violet-100 text-violet-800 border-violet-200',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200',
+};
+
+// Swatches for picking a colour
+export const TAG_SWATCH_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  amber: 'bg-amber-500',
+  green: 'bg-green-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  violet: 'bg-violet-500',
+  pink: 'bg-pink-500',
+};
+
+// Colours saved by an older or newer app fall back to gray
+export const toTag = (row: { id: string; name: string; color: string }): Tag => ({
+  id: row.id,
+  name: row.name,
+  color: (TAG_COLORS as readonly string[]).includes(row.color) ? (row.color as TagColor) : 'gray',
+});
+
+// New tags take the palette in turn, so neighbours differ
+export const nextTagColor = (tags: Tag[]): TagColor => TAG_COLORS[tags.length % TAG_COLORS.length];
+
+export const createTag = async (userId: string, name: string, color: TagColor) => {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert([{ user_id: userId, name: name.trim(), color }])
+    .select('id, name, color')
+    .single();
+
+  if (error) throw error;
+  return toTag(data);
+};
+
+export const updateTag = async (id: string, changes: { name?: string; color?: TagColor }) => {
+  const { error } = await supabase.from('tags').update(changes).eq('id', id);
+  if (error) throw error;
+};
+
+// Also takes the tag off every contact
+export const deleteTag = async (id: string) => {
+  const { error } = await supabase.from('tags').delete().eq('id', id);
+  if (error) throw error;
+};
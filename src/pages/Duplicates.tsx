@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Loader2, GitMerge, UserX, Undo2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useToast } from '@/hooks/use-toast';
+import { loadContacts, loadRecentMerges, undoContactMerge, type ContactData, type RecentMerge } from '@/lib/contacts';
+import {
+  DUPLICATE_REASON_LABELS,
+  dismissPair,
+  dismissedPairs,
+  findDuplicatePairs,
+  groupDuplicates,
+  pairKey,
+  type DuplicateGroup,
+} from '@/lib/duplicates';
+
+type SavedContact = ContactData & { id: string };
+
+const ContactSummary = ({ contact }: { contact: SavedContact }) => (
+  <div className="flex-1 min-w-0 space-y-1 text-sm">
+    <p className="font-semibold truncate">{contact.name || 'Unnamed Contact'}</p>
+    {(contact.job_title || contact.company) && (
+      <p className="text-muted-foreground truncate">
+        {[contact.job_title, contact.company].filter(Boolean).join(', ')}
+      </p>
+    )}
+    {contact.emails?.map(email => <p key={email} className="truncate">{email}</p>)}
+    {contact.phones?.map(phone => <p key={phone.number} className="truncate">{phone.number}</p>)}
+  </div>
+);
+
+const groupKey = (group: DuplicateGroup<SavedContact>) => group.contacts.map(contact => contact.id).join(',');
+
+// Likely duplicates across the whole address book, to merge or dismiss, and
+// merges that can still be undone
+const Duplicates = () => {
+  const { user } = useAuth();
+  const { defaultRegion } = useProfile();
+  const [groups, setGroups] = useState<DuplicateGroup<SavedContact>[] | null>(null);
+  const [merges, setMerges] = useState<RecentMerge[]>([]);
+  const [undoing, setUndoing] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const findGroups = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const dismissed = dismissedPairs(user.id);
+      const pairs = findDuplicatePairs(await loadContacts(user.id, defaultRegion), defaultRegion);
+      setGroups(groupDuplicates(pairs.filter(pair => !dismissed.has(pairKey(pair.first.id, pair.second.id)))));
+      setMerges(await loadRecentMerges(user.id));
+    } catch (error) {
+      console.error('Duplicates error:', error);
+      toast({ title: "Error", description: "Failed to load contacts.", variant: "destructive" });
+      setGroups([]);
+    }
+  }, [user, defaultRegion, toast]);
+
+  useEffect(() => {
+    findGroups();
+  }, [findGroups]);
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const handleUndo = async (merge: RecentMerge) => {
+    setUndoing(merge.id);
+    try {
+      await undoContactMerge(merge.id);
+      toast({
+        title: "Merge Undone",
+        description: merge.count > 1
+          ? `${merge.name} is split back into ${merge.count} contacts.`
+          : `The added card is taken off ${merge.name}.`,
+      });
+      await findGroups();
+    } catch (error) {
+      console.error('Undo merge error:', error);
+      toast({ title: "Error", description: "This merge can no longer be undone.", variant: "destructive" });
+      await findGroups();
+    } finally {
+      setUndoing(null);
+    }
+  };
+
+  const handleDismiss = (group: DuplicateGroup<SavedContact>) => {
+    group.pairs.forEach(pair => dismissPair(user.id, pairKey(pair.first.id, pair.second.id)));
+    setGroups(prev => prev && prev.filter(item => item !== group));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to contacts
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Possible Duplicates</CardTitle>
+            <CardDescription>
+              Contacts sharing an e-mail address or phone number, or with a similar name at a similar company.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {groups === null ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Comparing contacts...
+              </div>
+            ) : groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No duplicates found.</p>
+            ) : (
+              groups.map(group => (
+                <div key={groupKey(group)} className="rounded-lg border p-3 space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    {[...new Set(group.pairs.flatMap(pair => pair.reasons))]
+                      .map(reason => DUPLICATE_REASON_LABELS[reason])
+                      .join(' · ')}
+                  </p>
+                  <div className="flex gap-4">
+                    {group.contacts.map(contact => <ContactSummary key={contact.id} contact={contact} />)}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" asChild>
+                      <Link to={`/merge?ids=${groupKey(group)}`}>
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        Review & Merge
+                      </Link>
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDismiss(group)}>
+                      <UserX className="h-4 w-4 mr-2" />
+                      {group.contacts.length > 2 ? 'Not the Same People' : 'Not the Same Person'}
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {merges.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Merges</CardTitle>
+              <CardDescription>Merges can be undone for ten minutes.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {merges.map(merge => (
+                <div key={merge.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 min-w-0 truncate">
+                    {merge.count > 1 ? `${merge.count} contacts merged into ${merge.name}` : `Card added to ${merge.name}`}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => handleUndo(merge)} disabled={!!undoing}>
+                    {undoing === merge.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-4 w-4 mr-2" />
+                    )}
+                    Undo
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -1,30 +1,62 @@
-import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Scan, LogOut, Users } from 'lucide-react';
+import { Scan, LogOut, Users, UserCog, Layers, ListChecks, Loader2, Copy } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useScanQueue } from '@/hooks/useScanQueue';
 import CardScanner from '@/components/CardScanner';
 import ContactForm from '@/components/ContactForm';
+import BatchReview from '@/components/BatchReview';
+import BulkImport from '@/components/BulkImport';
 import ContactList from '@/components/ContactList';
 import ExportButton from '@/components/ExportButton';
+import type { ScannedData } from '@/lib/card-scan';
+import { settleContactMerges } from '@/lib/contacts';
 
 const Index = () => {
   const { user, signOut } = useAuth();
   const [showScanner, setShowScanner] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [importing, setImporting] = useState<{ files: File[]; language: string } | null>(null);
   const [showContactForm, setShowContactForm] = useState(false);
-  const [scannedData, setScannedData] = useState(null);
+  const [scannedData, setScannedData] = useState<ScannedData | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const queue = useScanQueue();
+
+  // Clears up after merges whose undo window ended while the app was closed
+  useEffect(() => {
+    if (user) settleContactMerges(user.id);
+  }, [user]);
 
   if (!user) {
     return <Navigate to="/auth" replace />;
   }
 
-  const handleScanComplete = (data: any) => {
+  const handleScanComplete = (data: ScannedData) => {
     setScannedData(data);
     setShowScanner(false);
     setShowContactForm(true);
   };
 
+  const openScanner = (batch: boolean) => {
+    setBatchMode(batch);
+    setShowScanner(true);
+  };
+
+  const openReview = () => {
+    setShowScanner(false);
+    setImporting(null);
+    setShowReview(true);
+  };
+
+  const handleImport = (files: File[], language: string) => {
+    setShowScanner(false);
+    setImporting({ files, language });
+  };
+
+  const reading = queue.cards.filter(card => card.status === 'queued' || card.status === 'scanning').length;
+
   const handleContactSaved = () => {
     setShowContactForm(false);
     setScannedData(null);
@@ -48,6 +80,11 @@ const Index = () => {
             </div>
             <div className="flex items-center gap-3">
               <span className="text-sm text-muted-foreground">{user.email}</span>
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/profile" aria-label="Profile">
+                  <UserCog className="h-4 w-4" />
+                </Link>
+              </Button>
               <Button variant="ghost" size="sm" onClick={signOut}>
                 <LogOut className="h-4 w-4" />
               </Button>
@@ -61,19 +98,45 @@ const Index = () => {
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 mb-6">
           <Button 
-            onClick={() => setShowScanner(true)}
+            onClick={() => openScanner(false)}
             className="flex-1 sm:flex-none h-12"
           >
             <Scan className="h-5 w-5 mr-2" />
             Scan New Card
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => openScanner(true)}
+            className="flex-1 sm:flex-none h-12"
+          >
+            <Layers className="h-5 w-5 mr-2" />
+            Batch Scan
+          </Button>
+          {queue.cards.length > 0 && (
+            <Button
+              variant="secondary"
+              onClick={openReview}
+              className="flex-1 sm:flex-none h-12"
+            >
+              {reading > 0
+                ? <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                : <ListChecks className="h-5 w-5 mr-2" />}
+              Review {queue.cards.length === 1 ? '1 Card' : `${queue.cards.length} Cards`}
+            </Button>
+          )}
           <ExportButton />
         </div>
 
         {/* Contact Count */}
         <div className="flex items-center gap-2 mb-4">
           <Users className="h-4 w-4 text-muted-foreground" />
-          <span className="text-sm text-muted-foreground">Your Business Cards</span>
+          <span className="text-sm text-muted-foreground flex-1">Your Business Cards</span>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/duplicates">
+              <Copy className="h-4 w-4 mr-2" />
+              Find Duplicates
+            </Link>
+          </Button>
         </div>
 
         {/* Contact List */}
@@ -85,6 +148,34 @@ const Index = () => {
         <CardScanner
           onScanComplete={handleScanComplete}
           onClose={() => setShowScanner(false)}
+          batch={batchMode ? {
+            queued: queue.cards.length,
+            onQueue: queue.enqueue,
+            onReview: openReview,
+          } : undefined}
+          onImport={handleImport}
+        />
+      )}
+
+      {importing && (
+        <BulkImport
+          files={importing.files}
+          language={importing.language}
+          cards={queue.cards}
+          onQueue={queue.enqueue}
+          onReview={openReview}
+          onClose={() => setImporting(null)}
+        />
+      )}
+
+      {showReview && (
+        <BatchReview
+          cards={queue.cards}
+          onUpdate={queue.updateDraft}
+          onRetry={queue.retry}
+          onRemove={queue.remove}
+          onSaved={() => setRefreshTrigger(prev => prev + 1)}
+          onClose={() => setShowReview(false)}
         />
       )}
 
@@ -0,0 +1,277 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToastAction } from '@/components/ui/toast';
+import { ArrowLeft, Loader2, GitMerge, Check } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useToast } from '@/hooks/use-toast';
+import { useCardImageUrls } from '@/hooks/useCardImageUrls';
+import { loadContacts, mergeContacts, undoContactMerge, type ContactData } from '@/lib/contacts';
+import {
+  LIST_MERGE_FIELDS,
+  SINGLE_MERGE_FIELDS,
+  applyChoices,
+  initialChoices,
+  isConflict,
+  listValues,
+  singleValue,
+  type ListMergeField,
+  type ListValue,
+  type MergeChoices,
+  type SingleMergeField,
+} from '@/lib/contact-merge';
+import { cn } from '@/lib/utils';
+
+type SavedContact = ContactData & { id: string };
+
+// Merges the contacts in ?ids=, with the user picking each field's value
+const Merge = () => {
+  const { user } = useAuth();
+  const { defaultRegion, loading: profileLoading } = useProfile();
+  const [searchParams] = useSearchParams();
+  const [contacts, setContacts] = useState<SavedContact[] | null>(null);
+  const [choices, setChoices] = useState<MergeChoices | null>(null);
+  const [merging, setMerging] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const ids = searchParams.get('ids') ?? '';
+  const imageUrlFor = useCardImageUrls(
+    (contacts ?? []).flatMap(contact => [contact.image_url, contact.back_image_url])
+  );
+
+  // Waits for the profile, whose region formats the phone numbers, so the
+  // choices are not reset under the user when it arrives
+  useEffect(() => {
+    if (!user || profileLoading) return;
+
+    const wanted = ids.split(',').filter(Boolean);
+    loadContacts(user.id, defaultRegion)
+      .then(saved => {
+        const found = wanted
+          .map(id => saved.find(contact => contact.id === id))
+          .filter((contact): contact is SavedContact => !!contact);
+        setContacts(found);
+        setChoices(found.length > 1 ? initialChoices(found) : null);
+      })
+      .catch(error => {
+        console.error('Merge load error:', error);
+        toast({ title: "Error", description: "Failed to load contacts.", variant: "destructive" });
+        setContacts([]);
+      });
+  }, [user, ids, profileLoading, defaultRegion, toast]);
+
+  // Every distinct value of each list field, across the contacts
+  const listOptions = useMemo(() => {
+    const options = {} as Record<ListMergeField, ListValue[]>;
+    for (const { field } of LIST_MERGE_FIELDS) {
+      const values = (contacts ?? []).flatMap(contact => listValues(contact, field));
+      options[field] = values.filter((value, index) => values.findIndex(other => other.key === value.key) === index);
+    }
+    return options;
+  }, [contacts]);
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const chooseKeep = (contactId: string) => {
+    setChoices(prev => prev && { ...prev, keep: contactId });
+  };
+
+  const chooseValue = (field: SingleMergeField, contactId: string) => {
+    setChoices(prev => prev && { ...prev, single: { ...prev.single, [field]: contactId } });
+  };
+
+  const toggleValue = (field: ListMergeField, key: string, checked: boolean) => {
+    setChoices(prev => prev && {
+      ...prev,
+      lists: {
+        ...prev.lists,
+        [field]: checked ? [...prev.lists[field], key] : prev.lists[field].filter(item => item !== key),
+      },
+    });
+  };
+
+  const handleMerge = async () => {
+    if (!contacts || !choices) return;
+
+    setMerging(true);
+    try {
+      const merged = applyChoices(contacts, choices);
+      const mergeId = await mergeContacts(user.id, choices.keep, merged, contacts, defaultRegion);
+      toast({
+        title: "Contacts Merged",
+        description: `${contacts.length} contacts are now ${merged.name || 'one contact'}.`,
+        action: (
+          <ToastAction
+            altText="Undo merge"
+            onClick={() =>
+              undoContactMerge(mergeId)
+                .then(() => toast({ title: "Merge Undone", description: "The contacts have been restored." }))
+                .catch(error => {
+                  console.error('Undo merge error:', error);
+                  toast({ title: "Error", description: "This merge can no longer be undone.", variant: "destructive" });
+                })
+            }
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+      navigate('/duplicates');
+    } catch (error) {
+      console.error('Merge error:', error);
+      toast({ title: "Error", description: "Failed to merge the contacts. Nothing was changed.", variant: "destructive" });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderSingleValue = (contact: SavedContact, field: SingleMergeField) => {
+    const image = field === 'front' ? contact.image_url : field === 'back' ? contact.back_image_url : null;
+    if (image && imageUrlFor(image)) {
+      return <img src={imageUrlFor(image)} alt={`${contact.name || 'Contact'} card`} className="w-full rounded object-cover max-h-24" />;
+    }
+    const value = singleValue(contact, field);
+    return value ? <span className="whitespace-pre-line line-clamp-3">{value}</span> : <span className="text-muted-foreground">Empty</span>;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/duplicates">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to duplicates
+          </Link>
+        </Button>
+
+        {contacts === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading contacts...
+          </div>
+        ) : !choices ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            These contacts no longer exist or have already been merged.
+          </p>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Merge {contacts.length} Contacts</CardTitle>
+              <CardDescription>
+                Pick the value to keep for each field. Fields where the contacts differ are marked. The tags and scan
+                history of every contact are kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label>Contact to Keep</Label>
+                <p className="text-xs text-muted-foreground">
+                  The others are deleted once their values are merged into it. It keeps its own creation date and source.
+                </p>
+                <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${contacts.length}, minmax(0, 1fr))` }}>
+                  {contacts.map(contact => {
+                    const selected = choices.keep === contact.id;
+                    return (
+                      <button
+                        key={contact.id}
+                        type="button"
+                        onClick={() => chooseKeep(contact.id)}
+                        aria-pressed={selected}
+                        className={cn('relative rounded-md border p-2 text-left text-sm', selected && 'border-primary bg-primary/5')}
+                      >
+                        {selected && <Check className="absolute top-1 right-1 h-3 w-3 text-primary" />}
+                        <span className="block truncate">{contact.name || 'Unnamed Contact'}</span>
+                        {contact.company && <span className="block truncate text-muted-foreground">{contact.company}</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {SINGLE_MERGE_FIELDS.map(({ field, label }) => {
+                const conflict = isConflict(contacts, field);
+                return (
+                  <div key={field} className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      {label}
+                      {conflict && <span className="text-xs font-normal text-amber-600">Differs</span>}
+                    </Label>
+                    <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${contacts.length}, minmax(0, 1fr))` }}>
+                      {contacts.map(contact => {
+                        const selected = choices.single[field] === contact.id;
+                        return (
+                          <button
+                            key={contact.id}
+                            type="button"
+                            onClick={() => chooseValue(field, contact.id)}
+                            disabled={!conflict}
+                            aria-pressed={selected}
+                            className={cn(
+                              'relative rounded-md border p-2 text-left text-sm',
+                              selected && conflict ? 'border-primary bg-primary/5' : 'disabled:opacity-70'
+                            )}
+                          >
+                            {selected && conflict && <Check className="absolute top-1 right-1 h-3 w-3 text-primary" />}
+                            {renderSingleValue(contact, field)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {LIST_MERGE_FIELDS.map(({ field, label }) =>
+                listOptions[field].length ? (
+                  <div key={field} className="space-y-2">
+                    <Label>{label}</Label>
+                    {listOptions[field].map(value => (
+                      <div key={value.key} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`${field}-${value.key}`}
+                          checked={choices.lists[field].includes(value.key)}
+                          onCheckedChange={(checked) => toggleValue(field, value.key, checked === true)}
+                        />
+                        <Label htmlFor={`${field}-${value.key}`} className="font-normal">
+                          {value.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                ) : null
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="merge-notes">Notes</Label>
+                <Textarea
+                  id="merge-notes"
+                  value={choices.notes}
+                  onChange={(e) => setChoices(prev => prev && { ...prev, notes: e.target.value })}
+                  rows={4}
+                />
+              </div>
+
+              <Button onClick={handleMerge} disabled={merging} className="w-full">
+                {merging ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <GitMerge className="h-4 w-4 mr-2" />
+                )}
+                Merge {contacts.length} Contacts
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Merge;
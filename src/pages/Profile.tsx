@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowLeft, ArrowUp, Save } from 'lucide-react';
+import { getCountries, getCountryCallingCode } from 'libphonenumber-js/max';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useOcrUsage } from '@/hooks/useOcrUsage';
+import { useToast } from '@/hooks/use-toast';
+import { AUTO_LANGUAGE, OCR_LANGUAGES } from '@/lib/ocr-languages';
+import { DEFAULT_OCR_SETTINGS, OCR_PROVIDER_LABELS, type OcrProviderSetting, type OcrSettings } from '@/lib/ocr';
+import TagManager from '@/components/TagManager';
+
+const Profile = () => {
+  const { user } = useAuth();
+  const { profile, loading, updateProfile, defaultRegion, ocrSettings } = useProfile();
+  const [displayName, setDisplayName] = useState('');
+  const [region, setRegion] = useState<string>('');
+  const [language, setLanguage] = useState<string>(AUTO_LANGUAGE);
+  const [visionPreprocess, setVisionPreprocess] = useState(false);
+  const [ocr, setOcr] = useState<OcrSettings>(DEFAULT_OCR_SETTINGS);
+  const [saving, setSaving] = useState(false);
+  const { usage } = useOcrUsage();
+  const { toast } = useToast();
+
+  const regions = useMemo(() => {
+    const names = new Intl.DisplayNames([navigator.language], { type: 'region' });
+    return getCountries()
+      .map(code => ({ code, label: `${names.of(code) ?? code} (+${getCountryCallingCode(code)})` }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, []);
+
+  useEffect(() => {
+    if (loading) return;
+    setDisplayName(profile?.display_name ?? '');
+    setRegion(profile?.default_region ?? defaultRegion ?? '');
+    setLanguage(profile?.ocr_language ?? AUTO_LANGUAGE);
+    setVisionPreprocess(profile?.vision_preprocess ?? false);
+    setOcr(ocrSettings);
+  }, [loading, profile, defaultRegion, ocrSettings]);
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const updateProvider = (index: number, changes: Partial<OcrProviderSetting>) =>
+    setOcr(prev => ({
+      ...prev,
+      providers: prev.providers.map((provider, i) => (i === index ? { ...provider, ...changes } : provider)),
+    }));
+
+  const moveProvider = (index: number, offset: number) =>
+    setOcr(prev => {
+      const providers = [...prev.providers];
+      [providers[index], providers[index + offset]] = [providers[index + offset], providers[index]];
+      return { ...prev, providers };
+    });
+
+  const httpEnabled = ocr.providers.some(provider => provider.id === 'http' && provider.enabled);
+
+  const handleSave = async () => {
+    if (httpEnabled && !ocr.http_url?.trim()) {
+      toast({ title: "Error", description: "Enter the URL of your OCR endpoint.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await updateProfile({
+      display_name: displayName || null,
+      default_region: region || null,
+      ocr_language: language === AUTO_LANGUAGE ? null : language,
+      vision_preprocess: visionPreprocess,
+      ocr_settings: { ...ocr, http_url: ocr.http_url?.trim() || null },
+    });
+    setSaving(false);
+
+    toast(error
+      ? { title: "Error", description: "Failed to save profile.", variant: "destructive" }
+      : { title: "Success", description: "Profile updated." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-6 max-w-xl space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to contacts
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>{user.email}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="display_name">Display Name</Label>
+              <Input
+                id="display_name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Enter your name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="default_region">Default Phone Region</Label>
+              <Select value={region} onValueChange={setRegion}>
+                <SelectTrigger id="default_region">
+                  <SelectValue placeholder="Select a region" />
+                </SelectTrigger>
+                <SelectContent>
+                  {regions.map(({ code, label }) => (
+                    <SelectItem key={code} value={code}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used for numbers printed without a country code, when scanning and when editing contacts.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ocr_language">Card Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger id="ocr_language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_LANGUAGE}>Auto-detect</SelectItem>
+                  {OCR_LANGUAGES.map(({ code, label }) => (
+                    <SelectItem key={code} value={code}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The language most of your cards are printed in. You can still change it for a single scan.
+              </p>
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="vision_preprocess">Enhance Images for Google Vision</Label>
+                <p className="text-xs text-muted-foreground">
+                  Send a straightened, high-contrast copy of the card instead of the photo. Can help with
+                  dark or glossy cards; the offline reader always uses it.
+                </p>
+              </div>
+              <Switch id="vision_preprocess" checked={visionPreprocess} onCheckedChange={setVisionPreprocess} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Text Recognition</Label>
+              <p className="text-xs text-muted-foreground">
+                Tried from the top until one reads the card. A provider that takes longer than its
+                timeout is skipped.
+              </p>
+              <ul className="space-y-2">
+                {ocr.providers.map((provider, index) => (
+                  <li key={provider.id} className="flex items-center gap-2 rounded-md border p-2">
+                    <div className="flex flex-col">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        onClick={() => moveProvider(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${OCR_PROVIDER_LABELS[provider.id]} up`}
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        onClick={() => moveProvider(index, 1)}
+                        disabled={index === ocr.providers.length - 1}
+                        aria-label={`Move ${OCR_PROVIDER_LABELS[provider.id]} down`}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Label htmlFor={`ocr_${provider.id}`} className="flex-1 font-normal">
+                      {OCR_PROVIDER_LABELS[provider.id]}
+                    </Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={Math.round(provider.timeout_ms / 1000)}
+                      onChange={(e) => updateProvider(index, { timeout_ms: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                      className="h-8 w-16"
+                      aria-label={`${OCR_PROVIDER_LABELS[provider.id]} timeout in seconds`}
+                    />
+                    <span className="text-xs text-muted-foreground">s</span>
+                    <Switch
+                      id={`ocr_${provider.id}`}
+                      checked={provider.enabled}
+                      onCheckedChange={(enabled) => updateProvider(index, { enabled })}
+                    />
+                  </li>
+                ))}
+              </ul>
+              {httpEnabled && (
+                <Input
+                  type="url"
+                  value={ocr.http_url ?? ''}
+                  onChange={(e) => setOcr(prev => ({ ...prev, http_url: e.target.value }))}
+                  placeholder="https://ocr.example.com/recognise"
+                  aria-label="OCR endpoint URL"
+                />
+              )}
+            </div>
+
+            <Button onClick={handleSave} disabled={saving || loading} className="w-full">
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {usage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Scan Usage</CardTitle>
+              <CardDescription>
+                Google Vision scans this month. When they run out, cards are read offline with Tesseract.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Progress value={usage.monthlyLimit ? Math.min(100, (usage.used / usage.monthlyLimit) * 100) : 100} className="h-2" />
+              <div className="flex justify-between text-sm">
+                <span>{usage.used} of {usage.monthlyLimit} used</span>
+                <span className="text-muted-foreground">
+                  {Math.max(0, usage.monthlyLimit - usage.used)} remaining
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Resets on {usage.resetsAt.toLocaleDateString(undefined, { day: 'numeric', month: 'long' })}.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <TagManager />
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
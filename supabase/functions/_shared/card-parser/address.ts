@@ -0,0 +1,242 @@
+import type { PostalAddress } from './types.ts';
+
+const streetKeywords = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'drive', 'dr', 'lane', 'ln', 'boulevard', 'blvd',
+  'floor', 'suite', 'plot', 'estate', 'nagar', 'marg', 'rue', 'way', 'place', 'sector', 'block',
+  'building', 'bldg', 'tower', 'park', 'highway', 'hwy', 'square', 'sq', 'via', 'calle', 'straße', 'strasse',
+  'रोड', 'मार्ग', 'नगर', 'गली', 'चौक', 'شارع', 'улица', 'ул', 'проспект'
+];
+
+const streetKeywordRegex = new RegExp(`(?:^|[^\\p{L}])(?:${streetKeywords.join('|')})(?:$|[^\\p{L}])`, 'iu');
+// German and Dutch street names are compounds ("Leopoldstraße", "Kerkweg")
+const streetSuffixRegex = /\p{L}(?:straße|strasse|str\.|weg|platz|allee|gasse|laan|gracht)(?:\s|,|$)/iu;
+// Japanese, Chinese and Korean addresses name their administrative units
+// ("東京都千代田区", "浦东新区世纪大道100号", "테헤란로 152")
+const cjkAddressRegex = /[都道府県市区町村省]|丁目|番地|[路街]\d|\d+号|\p{Script=Hangul}(?:로|길)\s?\d/u;
+// "東京都千代田区丸の内1-2-3", "上海市浦东新区世纪大道100号"
+const japaneseLocalityRegex = /^(東京都|北海道|京都府|大阪府|\p{Script=Han}{2,3}県)(.+?[市区町村])(.*)$/u;
+const chineseLocalityRegex = /^(\p{Script=Han}{2,3}(?:省|自治区))?(\p{Script=Han}{2,3}市)(.*)$/u;
+const poBoxRegex = /\bp\.?\s?o\.?\s+box\b/i;
+
+// Postcode formats, most specific first. `region` is set where the format
+// identifies a single country well enough to fill in a missing country.
+const postalFormats: { region?: string; regex: RegExp }[] = [
+  { region: 'GB', regex: /\b([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})\b/ },
+  { region: 'CA', regex: /\b([A-Z]\d[A-Z]\s?\d[A-Z]\d)\b/ },
+  { region: 'JP', regex: /〒\s?(\d{3}-\d{4})/ },
+  { region: 'US', regex: /\b[A-Z]{2}\s+(\d{5}(?:-\d{4})?)\b/ },
+  { region: 'IN', regex: /\b(\d{3}\s?\d{3})\b/ },
+  { region: 'AU', regex: /\b(?:NSW|VIC|QLD|WA|SA|TAS|ACT|NT)\s+(\d{4})\b/ },
+  { regex: /^(\d{4,5})\s+\p{L}/u },
+  { regex: /\b(\d{4,6})\b/ },
+];
+
+const australianStates = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+
+const indianStates = [
+  'andhra pradesh', 'arunachal pradesh', 'assam', 'bihar', 'chhattisgarh', 'goa', 'gujarat',
+  'haryana', 'himachal pradesh', 'jharkhand', 'karnataka', 'kerala', 'madhya pradesh',
+  'maharashtra', 'manipur', 'meghalaya', 'mizoram', 'nagaland', 'odisha', 'punjab', 'rajasthan',
+  'sikkim', 'tamil nadu', 'telangana', 'tripura', 'uttar pradesh', 'uttarakhand', 'west bengal',
+  'delhi', 'new delhi', 'jammu and kashmir', 'ladakh', 'puducherry', 'chandigarh'
+];
+
+// Country names as they tend to be printed, keyed to ISO 3166 alpha-2
+const countryAliases: Record<string, string> = {
+  'india': 'IN', 'bharat': 'IN',
+  'usa': 'US', 'u.s.a.': 'US', 'us': 'US', 'united states': 'US', 'united states of america': 'US',
+  'uk': 'GB', 'u.k.': 'GB', 'united kingdom': 'GB', 'england': 'GB', 'scotland': 'GB', 'great britain': 'GB',
+  'uae': 'AE', 'u.a.e.': 'AE', 'united arab emirates': 'AE',
+  'germany': 'DE', 'deutschland': 'DE', 'france': 'FR', 'spain': 'ES', 'españa': 'ES', 'italy': 'IT', 'italia': 'IT',
+  'netherlands': 'NL', 'the netherlands': 'NL', 'switzerland': 'CH', 'schweiz': 'CH', 'austria': 'AT', 'österreich': 'AT',
+  'canada': 'CA', 'australia': 'AU', 'new zealand': 'NZ', 'singapore': 'SG', 'malaysia': 'MY', 'japan': 'JP',
+  'china': 'CN', 'hong kong': 'HK', 'south korea': 'KR', 'korea': 'KR', 'indonesia': 'ID', 'thailand': 'TH',
+  'philippines': 'PH', 'vietnam': 'VN', 'sri lanka': 'LK', 'bangladesh': 'BD', 'nepal': 'NP', 'pakistan': 'PK',
+  'saudi arabia': 'SA', 'ksa': 'SA', 'qatar': 'QA', 'oman': 'OM', 'kuwait': 'KW', 'bahrain': 'BH',
+  'south africa': 'ZA', 'nigeria': 'NG', 'kenya': 'KE', 'egypt': 'EG', 'brazil': 'BR', 'mexico': 'MX',
+  'ireland': 'IE', 'sweden': 'SE', 'norway': 'NO', 'denmark': 'DK', 'finland': 'FI', 'poland': 'PL', 'belgium': 'BE',
+};
+
+const countryCode = (value: string) => countryAliases[value.trim().toLowerCase().replace(/\.$/, '')];
+
+// English country name for an ISO code, e.g. "IN" -> "India"
+export const countryName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+export const hasStreetKeyword = (line: string) =>
+  streetKeywordRegex.test(line) || streetSuffixRegex.test(line) || cjkAddressRegex.test(line);
+
+const isCityStateLine = (line: string) =>
+  /^\p{Lu}[\p{L}.'’ -]+,\s*[A-Z]{2}$/u.test(line);
+
+// How strongly a single line looks like part of a postal address. Lines that
+// score at least SEED_SCORE can start an address block on their own.
+export const scoreAddressLine = (line: string) => {
+  if (/[A-Z][a-z]+,\s*[A-Z]{2}\s*\d{5}/.test(line)) return 0.75;
+  if (/\d/.test(line) && hasStreetKeyword(line)) return 0.7;
+  if (poBoxRegex.test(line)) return 0.6;
+  if (streetSuffixRegex.test(line)) return 0.55;
+  if (isCityStateLine(line)) return 0.5;
+  if (postalFormats.some(format => format.region && format.regex.test(line))) return 0.5;
+  if (/^\d{4,5}\s+\p{L}/u.test(line)) return 0.5;
+  // A bare 4-6 digit number, unless it reads as a year ("Summit 2025")
+  if (/\b\d{4,6}\b/.test(line) && !/^\D*\b(?:19|20)\d{2}\b\D*$/.test(line)) return 0.4;
+  if (countryCode(line.split(',').pop() ?? '')) return 0.35;
+  // House numbers and unit numbers ("8 Marina View, #21-01") only extend a block
+  if (/\d/.test(line) && line.length < 60) return 0.15;
+  return 0;
+};
+
+export const SEED_SCORE = 0.4;
+const MAX_BLOCK_LINES = 4;
+
+export interface AddressBlock {
+  lines: number[];
+  score: number;
+}
+
+// Grows an address outwards from its strongest line over neighbouring lines
+// that also look like address parts, stopping at anything already claimed by
+// another field (name, company, phone, ...)
+export const findAddressBlocks = (lines: string[], isAvailable: (index: number) => boolean): AddressBlock[] => {
+  const scores = lines.map(line => scoreAddressLine(line));
+
+  return scores
+    .map((score, seed) => ({ score, seed }))
+    .filter(({ score, seed }) => score >= SEED_SCORE && isAvailable(seed))
+    .map(({ seed }) => {
+      const block = [seed];
+      let above = seed - 1;
+      let below = seed + 1;
+
+      while (block.length < MAX_BLOCK_LINES) {
+        if (above >= 0 && scores[above] > 0 && isAvailable(above)) {
+          block.unshift(above--);
+        } else if (below < lines.length && scores[below] > 0 && isAvailable(below)) {
+          block.push(below++);
+        } else {
+          break;
+        }
+      }
+
+      const best = Math.max(...block.map(index => scores[index]));
+      // A street line plus a locality line is the shape of most addresses
+      const bonus = block.length > 1 ? 0.1 : 0;
+      return { lines: block, score: Math.min(0.95, best + bonus) };
+    });
+};
+
+// Splits address lines into parts. The last line holding a postcode (or
+// "City, ST") is read as the locality; everything before it is the street.
+export const splitAddress = (lines: string[], defaultRegion?: string | null): PostalAddress => {
+  const cleaned = lines.map(line => line.trim()).filter(Boolean);
+  if (cleaned.length === 0) return {};
+
+  const address: PostalAddress = {};
+  let localityIndex = -1;
+  for (let i = cleaned.length - 1; i >= 0; i--) {
+    const line = cleaned[i];
+    // A country on its own line is picked up below as a trailing line
+    if (countryCode(line)) continue;
+    if (postalFormats.some(format => format.regex.test(line)) || isCityStateLine(line)) {
+      localityIndex = i;
+      break;
+    }
+  }
+  if (localityIndex === -1) localityIndex = cleaned.length - 1;
+
+  // A country on a line of its own below the locality
+  const trailing = cleaned.slice(localityIndex + 1);
+  const streetLines = cleaned.slice(0, localityIndex);
+  let parts = cleaned[localityIndex].split(',').map(part => part.trim()).filter(Boolean);
+
+  let detectedRegion: string | undefined;
+  for (const line of trailing) {
+    const code = countryCode(line);
+    if (code) {
+      address.country = line;
+    } else {
+      streetLines.push(line);
+    }
+  }
+
+  const lastPartCode = parts.length > 0 ? countryCode(parts[parts.length - 1]) : undefined;
+  if (lastPartCode && !address.country && (parts.length > 1 || localityIndex > 0)) {
+    address.country = parts.pop();
+  }
+
+  // Postcode: search from the end of the locality line, skipping P.O. box numbers
+  const canHoldPostcode = (part: string) => !poBoxRegex.test(part);
+  for (const format of postalFormats) {
+    const index = parts.findIndex((_, i) => {
+      const part = parts[parts.length - 1 - i];
+      return canHoldPostcode(part) && format.regex.test(part);
+    });
+    if (index === -1) continue;
+
+    const partIndex = parts.length - 1 - index;
+    const match = parts[partIndex].match(format.regex);
+    if (!match) continue;
+
+    address.postal_code = match[1].trim();
+    detectedRegion = format.region;
+    const remainder = parts[partIndex].replace(match[1], ' ').replace('〒', ' ').replace(/\s+-\s*$|^\s*-\s+/g, ' ').replace(/\s+/g, ' ').trim();
+    parts = [...parts.slice(0, partIndex), ...(remainder ? [remainder] : []), ...parts.slice(partIndex + 1)];
+    break;
+  }
+
+  // Japanese and Chinese addresses run from the largest unit down
+  const eastAsian = parts.length === 1
+    ? parts[0].match(japaneseLocalityRegex) ?? parts[0].match(chineseLocalityRegex)
+    : null;
+  if (eastAsian) {
+    if (eastAsian[1]) address.region = eastAsian[1];
+    parts = [...(eastAsian[3] ? [eastAsian[3]] : []), eastAsian[2]];
+  }
+
+  // Region: "CA" / "NSW" after the city, or an Indian state name
+  if (parts.length > 0 && !eastAsian) {
+    const last = parts[parts.length - 1];
+    const trailingCode = last.match(/^(.*?)\s*\b([A-Z]{2,3})$/);
+    if (indianStates.includes(last.toLowerCase()) || (/^[A-Z]{2,3}$/.test(last) && parts.length > 1)) {
+      address.region = parts.pop();
+    } else if (trailingCode && trailingCode[1] && (australianStates.includes(trailingCode[2]) || /^[A-Z]{2}$/.test(trailingCode[2]))) {
+      address.region = trailingCode[2];
+      parts[parts.length - 1] = trailingCode[1].trim();
+    }
+  }
+
+  const city = parts.pop();
+  if (city) address.city = city.replace(/[-–,]\s*$/, '').trim();
+
+  const street = [...streetLines, ...parts].join(', ');
+  if (street) address.street = street;
+
+  // A city-state such as Singapore names its own country
+  if (!address.country && address.city && countryCode(address.city)) {
+    address.country = address.city;
+  }
+
+  // Fill in an unprinted country when the postcode fits the user's region:
+  // the region's own format if we know one, otherwise a generic postcode
+  const region = defaultRegion?.toUpperCase();
+  if (!address.country && address.postal_code && region) {
+    const hasOwnFormat = postalFormats.some(format => format.region === region);
+    const fitsRegion = hasOwnFormat ? detectedRegion === region : !detectedRegion;
+    if (fitsRegion) address.country = countryName(region);
+  }
+
+  return address;
+};
+
+// Joins the parts back into a single line for display and export
+export const formatAddress = (address: PostalAddress) => {
+  const locality = [address.city, address.region].filter(Boolean).join(', ');
+  const localityWithCode = [locality, address.postal_code].filter(Boolean).join(' ');
+  return [address.street, localityWithCode, address.country].filter(Boolean).join(', ');
+};
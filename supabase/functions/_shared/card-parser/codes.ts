@@ -0,0 +1,229 @@
+import { normalisePhone } from './phones.ts';
+import { formatAddress } from './address.ts';
+import { CARD_FIELDS, type FieldScores, type ParsedCard, type PhoneEntry, type PhoneType, type PostalAddress } from './types.ts';
+
+// Contact details read from a card's QR code. Unlike OCR these are exactly
+// what the owner typed, so every field is fully confident.
+interface CodeContact {
+  name?: string;
+  company?: string;
+  job_title?: string;
+  phones: PhoneEntry[];
+  emails: string[];
+  websites: string[];
+  address?: PostalAddress;
+}
+
+const emptyContact = (): CodeContact => ({ phones: [], emails: [], websites: [] });
+
+const vCardPhoneTypes: [PhoneType, RegExp][] = [
+  ['fax', /fax/i],
+  ['mobile', /cell|mobile|iphone/i],
+  ['office', /work|voice|main/i],
+];
+
+const addPhone = (contact: CodeContact, number: string, typeHint: string, defaultRegion?: string | null) => {
+  const normalised = normalisePhone(number, defaultRegion);
+  if (!normalised.number) return;
+  const type = vCardPhoneTypes.find(([, cue]) => cue.test(typeHint))?.[0] ?? normalised.type ?? 'other';
+  contact.phones.push(normalised.e164
+    ? { type, number: normalised.number, e164: normalised.e164 }
+    : { type, number: normalised.number });
+};
+
+// vCard 2.1 cards from older phones still use quoted-printable for non-ASCII
+const decodeQuotedPrintable = (value: string) => {
+  const bytes: number[] = [];
+  const text = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(text[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+// Splits on unescaped separators and unescapes the parts
+const splitEscaped = (value: string, separator: string) => {
+  const parts: string[] = [''];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      const next = value[++i];
+      parts[parts.length - 1] += next === 'n' || next === 'N' ? '\n' : next;
+    } else if (value[i] === separator) {
+      parts.push('');
+    } else {
+      parts[parts.length - 1] += value[i];
+    }
+  }
+  return parts.map(part => part.trim());
+};
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\(.)/g, (_, next: string) => (next === 'n' || next === 'N' ? '\n' : next)).trim();
+
+const toAddress = ([poBox, extended, street, city, region, postalCode, country]: string[]): PostalAddress => ({
+  street: [poBox, extended, street].filter(Boolean).join(', ') || undefined,
+  city: city || undefined,
+  region: region || undefined,
+  postal_code: postalCode || undefined,
+  country: country || undefined,
+});
+
+const parseVCard = (payload: string, defaultRegion?: string | null): CodeContact => {
+  const contact = emptyContact();
+  let structuredName: string | undefined;
+  // Folded lines continue with a leading space or tab
+  const lines = payload.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [property, ...params] = line.slice(0, colon).split(';');
+    const name = property.replace(/^[^.]*\./, '').toUpperCase();
+    const paramText = params.join(';');
+    let value = line.slice(colon + 1);
+    if (/ENCODING=QUOTED-PRINTABLE/i.test(paramText)) value = decodeQuotedPrintable(value);
+
+    switch (name) {
+      case 'FN':
+        contact.name = unescapeValue(value);
+        break;
+      case 'N': {
+        const [family, given, middle, prefix, suffix] = splitEscaped(value, ';');
+        structuredName = [prefix, given, middle, family, suffix].filter(Boolean).join(' ');
+        break;
+      }
+      case 'ORG':
+        // Organisation name first, then units ("Example Ltd;Sales")
+        contact.company = splitEscaped(value, ';')[0];
+        break;
+      case 'TITLE':
+        contact.job_title = unescapeValue(value);
+        break;
+      case 'TEL':
+        addPhone(contact, unescapeValue(value).replace(/^tel:/i, ''), paramText, defaultRegion);
+        break;
+      case 'EMAIL':
+        contact.emails.push(unescapeValue(value).replace(/^mailto:/i, ''));
+        break;
+      case 'URL':
+        contact.websites.push(unescapeValue(value));
+        break;
+      case 'ADR':
+        contact.address ??= toAddress(splitEscaped(value, ';'));
+        break;
+    }
+  }
+
+  contact.name ||= structuredName;
+  return contact;
+};
+
+// Splits MeCard fields on unescaped ';', keeping escapes for the field parser
+const splitFields = (value: string) => {
+  const fields: string[] = [''];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      fields[fields.length - 1] += value[i] + value[++i];
+    } else if (value[i] === ';') {
+      fields.push('');
+    } else {
+      fields[fields.length - 1] += value[i];
+    }
+  }
+  return fields.filter(Boolean);
+};
+
+// MECARD:N:Doe,Jane;TEL:+44...;EMAIL:jane@example.com;;
+const parseMeCard = (payload: string, defaultRegion?: string | null): CodeContact => {
+  const contact = emptyContact();
+  const body = payload.replace(/^MECARD:/i, '');
+
+  for (const field of splitFields(body)) {
+    const colon = field.indexOf(':');
+    if (colon < 0) continue;
+    const key = field.slice(0, colon).toUpperCase();
+    const value = field.slice(colon + 1);
+
+    switch (key) {
+      case 'N': {
+        const [family, given] = splitEscaped(value, ',');
+        contact.name = [given, family].filter(Boolean).join(' ');
+        break;
+      }
+      case 'ORG':
+        contact.company = unescapeValue(value);
+        break;
+      case 'TITLE':
+        contact.job_title = unescapeValue(value);
+        break;
+      case 'TEL':
+        addPhone(contact, unescapeValue(value), '', defaultRegion);
+        break;
+      case 'EMAIL':
+        contact.emails.push(unescapeValue(value));
+        break;
+      case 'URL':
+        contact.websites.push(unescapeValue(value));
+        break;
+      case 'ADR': {
+        const parts = splitEscaped(value, ',');
+        // Either the vCard order or a single free-form line
+        contact.address ??= parts.length >= 7 ? toAddress(parts) : { street: parts.filter(Boolean).join(', ') };
+        break;
+      }
+    }
+  }
+  return contact;
+};
+
+const toParsedCard = (contact: CodeContact): ParsedCard | null => {
+  const location = contact.address ? formatAddress(contact.address) : undefined;
+  const result: ParsedCard = {
+    raw_text: '',
+    name: contact.name || undefined,
+    company: contact.company || undefined,
+    job_title: contact.job_title || undefined,
+    phone: contact.phones[0]?.number,
+    email: contact.emails[0],
+    website: contact.websites[0],
+    location: location || undefined,
+    address: location ? contact.address : undefined,
+    phones: contact.phones,
+    emails: contact.emails,
+    websites: contact.websites,
+    confidence: 1,
+  };
+
+  const fieldScores: FieldScores = {};
+  for (const field of CARD_FIELDS) {
+    if (result[field]) fieldScores[field] = { confidence: 1, alternatives: [] };
+  }
+  if (Object.keys(fieldScores).length === 0) return null;
+  result.field_scores = fieldScores;
+  return result;
+};
+
+// Reads a QR code's payload: a vCard, a MeCard, or a bare link, phone number
+// or address (a LinkedIn profile, say). Anything else is not contact data.
+export const parseCardCode = (payload: string, defaultRegion?: string | null): ParsedCard | null => {
+  const text = payload.trim();
+  if (/^BEGIN:VCARD/i.test(text)) return toParsedCard(parseVCard(text, defaultRegion));
+  if (/^MECARD:/i.test(text)) return toParsedCard(parseMeCard(text, defaultRegion));
+
+  const contact = emptyContact();
+  if (/^(https?:\/\/|www\.)\S+$/i.test(text)) {
+    contact.websites.push(text);
+  } else if (/^mailto:/i.test(text)) {
+    contact.emails.push(text.replace(/^mailto:/i, '').split('?')[0]);
+  } else if (/^tel:/i.test(text)) {
+    addPhone(contact, text.replace(/^tel:/i, ''), '', defaultRegion);
+  } else {
+    return null;
+  }
+  return toParsedCard(contact);
+};
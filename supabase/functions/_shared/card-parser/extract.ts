@@ -0,0 +1,264 @@
+import type { CardField, ExtractOptions, FieldScores, ParsedCard } from './types.ts';
+import { rankCandidates, toFieldScore, type ScoredCandidate } from './scoring.ts';
+import { findPhones, type PhoneMatch } from './phones.ts';
+import { primaryFirst, uniqueBy } from './lists.ts';
+import { companyLayoutBonus, matchLayout, nameLayoutBonus } from './layout.ts';
+import { cardLines, domainStems } from './text.ts';
+import { applyMisreads, applyValueRules, NO_RULES, positionBonus } from './learning.ts';
+import { findAddressBlocks, hasStreetKeyword, scoreAddressLine, SEED_SCORE, splitAddress } from './address.ts';
+
+const emailRegex = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/gi;
+const websiteRegex = /(?:https?:\/\/)?(?:www\.)?([a-zA-Z0-9][a-zA-Z0-9-]{1,61}[a-zA-Z0-9](?:\.[a-zA-Z]{2,})+)/gi;
+
+const companyKeywords = [
+  'inc', 'ltd', 'llc', 'llp', 'plc', 'gmbh', 'corp', 'corporation', 'company', 'co',
+  'group', 'solutions', 'services', 'technologies', 'systems', 'enterprises', 'consulting',
+  'pvt', 'private', 'limited', 'software', 'tech', 'digital', 'innovation', 'studio', 'labs',
+  'agency', 'capital', 'trading', 'industries', 'hospital', 'university', 'institute', 'ventures',
+  'analytics', 'media', 'foundation', 'sarl', 'sas', 'srl', 'bv', 'ag', 'ооо'
+];
+
+// Legal forms in scripts that do not separate words with spaces, matched
+// anywhere in the line ("株式会社サクラ電機")
+const companyMarkers = [
+  '株式会社', '有限会社', '合同会社', '(株)', '㈱', '株式會社', '公司', '集团', '集團', '商事',
+  '주식회사', '(주)', 'شركة', 'مؤسسة', 'ذ.م.م', 'लिमिटेड', 'प्राइवेट', 'कंपनी'
+];
+
+const titleKeywords = [
+  'manager', 'director', 'ceo', 'cto', 'cfo', 'coo', 'president', 'vice president', 'vp',
+  'senior', 'lead', 'head', 'chief', 'engineer', 'developer', 'analyst', 'consultant',
+  'specialist', 'coordinator', 'executive', 'officer', 'founder', 'partner', 'associate',
+  'designer', 'architect', 'scientist', 'representative', 'owner', 'professor', 'marketing',
+  'directeur', 'directrice', 'gérant', 'gérante', 'ingénieur', 'fondateur', 'fondatrice', 'responsable',
+  'geschäftsführer', 'geschäftsführerin', 'leiter', 'leiterin', 'ingenieur', 'gründer', 'inhaber',
+  'gerente', 'direttore', 'directora', 'socio', 'директор', 'менеджер', 'инженер', 'руководитель'
+];
+
+const titleMarkers = [
+  '部長', '課長', '社長', '取締役', '代表', '主任', '係長', 'マネージャー', 'エンジニア',
+  '经理', '經理', '总监', '總監', '董事', '工程师', '工程師', '主管',
+  '대표', '이사', '부장', '과장', '팀장', '매니저',
+  'निदेशक', 'प्रबंधक', 'अधिकारी', 'संस्थापक', 'مدير', 'المدير', 'مهندس'
+];
+
+
+const keywordRegex = (keywords: string[]) =>
+  new RegExp(`(?:^|[^\\p{L}])(?:${keywords.join('|')})(?:$|[^\\p{L}])`, 'iu');
+
+const companyKeywordRegex = keywordRegex(companyKeywords);
+const titleKeywordRegex = keywordRegex(titleKeywords);
+
+const hasMarker = (line: string, markers: string[]) => markers.some(marker => line.includes(marker));
+
+const isCompanyLike = (line: string) => companyKeywordRegex.test(line) || hasMarker(line, companyMarkers);
+const isTitleLike = (line: string) => titleKeywordRegex.test(line) || hasMarker(line, titleMarkers);
+
+const countTitleKeywords = (line: string) =>
+  titleKeywords.filter(keyword => keywordRegex([keyword]).test(line)).length +
+  titleMarkers.filter(marker => line.includes(marker)).length;
+
+// Han, kana and Hangul are written without spaces between words
+const cjkRegex = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+// Letters from scripts without upper and lower case (Devanagari, Arabic, Han, ...)
+const caselessWordRegex = /^[\p{Lo}\p{M}・·]+$/u;
+
+// Tesseract puts a space between every CJK character ("山 田 太 郎"), while
+// "山田 太郎" is spaced on purpose. Cards also reach us in decomposed Unicode,
+// which would store accents as separate marks.
+const prepareText = (text: string) =>
+  text
+    .normalize('NFC')
+    .replace(/(?<=(?:^|\s)[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[ \t]+(?=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}](?:\s|$))/gmu, '');
+
+// "José" -> "jose", for matching lines against email addresses and domains
+const foldAccents = (value: string) => value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+const isContactLine = (line: string) =>
+  new RegExp(emailRegex.source, 'i').test(line) ||
+  /(?:https?:\/\/|www\.)/i.test(line) ||
+  /^[\w.-]+\.[a-z]{2,}\/?$/i.test(line) ||
+  digitCount(line) >= 7 && !hasStreetKeyword(line);
+
+const scoreName = (line: string, index: number, emailLocals: string[]) => {
+  if (index > 5 || /\d/.test(line) || /[@|]/.test(line)) return 0;
+
+  const tokens = line.split(/\s+/).filter(token => !/^(?:dr|mr|mrs|ms|prof)\.?$/i.test(token));
+
+  let score: number;
+  if (tokens.every(token => cjkRegex.test(token) && caselessWordRegex.test(token))) {
+    // "山田太郎", "山田 太郎", "김민준"
+    const length = tokens.join('').length;
+    if (tokens.length > 2 || length < 2 || length > 5) return 0;
+    score = 0.5;
+  } else if (tokens.length < 2 || tokens.length > 4) {
+    return 0;
+  } else if (tokens.every(token => /^(?:\p{Lu}[\p{L}\p{M}'’-]+|\p{Lu}\.)$/u.test(token))) {
+    score = 0.55;
+  } else if (tokens.every(token => /^\p{Lu}[\p{Lu}\p{M}'’.-]+$/u.test(token))) {
+    score = 0.3;
+  } else if (tokens.every(token => caselessWordRegex.test(token))) {
+    // "प्रिया रमन", "أحمد الحسيني"
+    score = 0.5;
+  } else {
+    return 0;
+  }
+
+  score += 0.25 * (1 - index / 6);
+  if (isCompanyLike(line) || isTitleLike(line)) score -= 0.45;
+
+  const matchesEmail = tokens.some(token => {
+    const letters = foldAccents(token).replace(/[^a-z]/g, '');
+    return letters.length >= 3 && emailLocals.some(local => local.includes(letters));
+  });
+  if (matchesEmail) score += 0.25;
+
+  return score;
+};
+
+const scoreJobTitle = (line: string) => {
+  if (/@/.test(line) || digitCount(line) >= 5) return 0;
+
+  const matches = countTitleKeywords(line);
+  if (matches === 0) return 0;
+
+  let score = 0.6 + 0.1 * Math.min(matches - 1, 2);
+  if (isCompanyLike(line)) score -= 0.35;
+  if (line.length > 60) score -= 0.2;
+  return score;
+};
+
+const scoreCompany = (line: string, index: number, stems: string[]) => {
+  if (/@/.test(line)) return 0;
+
+  let score = 0;
+  if (isCompanyLike(line)) score += 0.6;
+
+  const compact = foldAccents(line).replace(/[^a-z0-9]/g, '');
+  if (compact.length >= 4 && stems.some(stem => compact.includes(stem) || stem.includes(compact))) {
+    score += 0.45;
+  }
+
+  if (/^[\p{Lu}\p{Lo}][\p{L}\p{M}\d\s&,.'’()・-]{2,}$/u.test(line) && index < 5) score += 0.2;
+  if (isTitleLike(line)) score -= 0.5;
+  if (/\d/.test(line)) score -= 0.3;
+  return score;
+};
+
+const scorePhone = (phone: PhoneMatch, line: string) => {
+  let score = phone.valid ? 0.85 : digitCount(phone.number) >= 10 ? 0.45 : 0.3;
+  if (phone.labelled) score += 0.1;
+  // A fax line is kept on the contact but is never its primary number
+  if (phone.type === 'fax') score -= 0.4;
+  if (scoreAddressLine(line) >= SEED_SCORE) score -= 0.3;
+  return score;
+};
+
+// Layout only re-weighs lines the text already made a case for
+const withLayout = (score: number, bonus: number) => (score > 0 ? score + bonus : score);
+
+// Picks the best candidate whose source line has not already been claimed
+const pickUnclaimed = (ranked: ScoredCandidate[], claimed: Set<number>) =>
+  ranked.filter(candidate => candidate.line === undefined || !claimed.has(candidate.line));
+
+export const extractContactInfo = (rawText: string, options: ExtractOptions = {}): ParsedCard => {
+  const rules = options.rules ?? NO_RULES;
+  const prepared = prepareText(rawText);
+  const text = applyMisreads(prepared, rules);
+  // Clean and normalize text
+  const cleanText = text.replace(/[^\w\s@.+\-()]/gi, ' ').replace(/\s+/g, ' ').trim();
+  const lines = cardLines(text);
+
+  const emails = cleanText.match(emailRegex) ?? [];
+  const websites = cleanText
+    .replace(emailRegex, ' ')
+    .match(websiteRegex) ?? [];
+
+  const phones = findPhones(lines, options.defaultRegion);
+  const layout = matchLayout(lines, options.layout);
+
+  const emailLocals = emails.map(email => email.split('@')[0].toLowerCase());
+  const stems = domainStems([...emails.map(email => email.split('@')[1]), ...websites]);
+  // Lines the user has put a field on before, for cards like this one
+  const learned = (field: CardField, index: number, score: number) => {
+    const bonus = positionBonus(rules, field, index, stems);
+    return bonus > 0 && !isContactLine(lines[index]) ? Math.max(score, 0) + bonus : score;
+  };
+
+  const candidates: Record<CardField, ScoredCandidate[]> = {
+    email: emails.map((email, index) => ({ value: email.toLowerCase(), score: 0.95 - 0.1 * index })),
+    website: websites.map(website => {
+      const host = website.replace(/^(https?:\/\/)?/i, '');
+      const explicit = /^(?:https?:\/\/|www\.)/i.test(website);
+      const matchesEmail = stems.some(stem => host.toLowerCase().includes(stem));
+      return { value: host, score: explicit ? 0.9 : matchesEmail ? 0.75 : 0.55 };
+    }),
+    phone: phones.map(phone => ({
+      value: phone.number,
+      score: scorePhone(phone, lines[phone.line]),
+      line: phone.line,
+    })),
+    name: lines.map((line, index) => ({
+      value: line,
+      score: learned('name', index, withLayout(scoreName(line, index, emailLocals), nameLayoutBonus(layout[index]))),
+      line: index,
+    })),
+    job_title: lines.map((line, index) => ({
+      value: line,
+      score: learned('job_title', index, isContactLine(line) ? 0 : scoreJobTitle(line)),
+      line: index,
+    })),
+    company: lines.map((line, index) => ({
+      value: line,
+      score: learned('company', index, isContactLine(line) ? 0 : withLayout(scoreCompany(line, index, stems), companyLayoutBonus(layout[index]))),
+      line: index,
+    })),
+    location: [],
+  };
+
+  // Lines are claimed in order, so a name is never also offered as the company
+  const claimed = new Set<number>();
+  // The text as read, so learning later sees the OCR's own mistakes
+  const result: ParsedCard = { raw_text: prepared, confidence: options.confidence };
+  const fieldScores: FieldScores = {};
+  const claimOrder: CardField[] = ['email', 'website', 'phone', 'name', 'job_title', 'company'];
+
+  for (const field of claimOrder) {
+    const ranked = pickUnclaimed(rankCandidates(candidates[field]), claimed);
+    const top = ranked[0];
+    if (!top) continue;
+
+    result[field] = top.value;
+    fieldScores[field] = toFieldScore(ranked, options.confidence);
+    if (top.line !== undefined && field !== 'phone') claimed.add(top.line);
+  }
+
+  // The address is whatever block of address-like lines is left over
+  const blocks = findAddressBlocks(lines, index => !claimed.has(index) && !isContactLine(lines[index]));
+  const blockLines = new Map(blocks.map(block => [block.lines.map(index => lines[index]).join(', '), block.lines]));
+  const rankedAddresses = rankCandidates(blocks.map(block => ({
+    value: block.lines.map(index => lines[index]).join(', '),
+    score: block.score,
+  })));
+  if (rankedAddresses[0]) {
+    const top = rankedAddresses[0];
+    result.location = top.value;
+    result.address = splitAddress((blockLines.get(top.value) ?? []).map(index => lines[index]), options.defaultRegion);
+    fieldScores.location = toFieldScore(rankedAddresses, options.confidence);
+  }
+
+  // Lists keep card order, except that the primary value always comes first
+  result.phones = primaryFirst(
+    uniqueBy(phones, phone => phone.e164 ?? phone.number).map(({ type, number, e164 }) => ({ type, number, e164 })),
+    phone => phone.number === result.phone
+  );
+  result.emails = uniqueBy(candidates.email.map(candidate => candidate.value), email => email);
+  result.websites = primaryFirst(
+    uniqueBy(candidates.website.map(candidate => candidate.value), website => website.toLowerCase()),
+    website => website === result.website
+  );
+  result.field_scores = fieldScores;
+  return applyValueRules(result, rules);
+};
@@ -0,0 +1,24 @@
+export { extractContactInfo } from './extract.ts';
+export { mergeCodeReading, mergeSides } from './merge.ts';
+export { learnRules } from './learning.ts';
+export { parseCardCode } from './codes.ts';
+export { LOW_CONFIDENCE_THRESHOLD } from './scoring.ts';
+export { normalisePhone, toRegion } from './phones.ts';
+export { formatAddress, splitAddress } from './address.ts';
+export { toTextBlocks, type PixelLine } from './layout.ts';
+export type { NormalisedPhone } from './phones.ts';
+export { CARD_FIELDS, PHONE_TYPES } from './types.ts';
+export type {
+  CardField,
+  Correction,
+  ExtractOptions,
+  FieldCandidate,
+  FieldScore,
+  FieldScores,
+  LearnedRules,
+  ParsedCard,
+  PhoneEntry,
+  PhoneType,
+  PostalAddress,
+  TextBlock,
+} from './types.ts';
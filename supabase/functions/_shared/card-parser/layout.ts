@@ -0,0 +1,109 @@
+import type { TextBlock } from './types.ts';
+
+// A line as OCR engines report it, in image pixels
+export interface PixelLine {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  confidence?: number;
+}
+
+export interface LineLayout {
+  top: number;
+  relativeHeight: number;
+  // Whether this line has the tallest text on the card
+  largest: boolean;
+  // How many lines on the card are set noticeably larger than the body text
+  largeLines: number;
+}
+
+const LARGE_TEXT = 1.25;
+const SMALL_TEXT = 0.85;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Brings pixel boxes to fractions of the image and measures each line's text
+// height against the card's median line
+export const toTextBlocks = (lines: PixelLine[], imageWidth: number, imageHeight: number): TextBlock[] => {
+  const visible = lines.filter(line => line.text.trim() && line.y1 > line.y0 && line.x1 > line.x0);
+  if (visible.length === 0 || imageWidth <= 0 || imageHeight <= 0) return [];
+
+  const typicalHeight = median(visible.map(line => line.y1 - line.y0));
+
+  return visible
+    .map(line => ({
+      text: line.text.trim(),
+      left: line.x0 / imageWidth,
+      top: line.y0 / imageHeight,
+      width: (line.x1 - line.x0) / imageWidth,
+      height: (line.y1 - line.y0) / imageHeight,
+      relative_height: (line.y1 - line.y0) / typicalHeight,
+      confidence: line.confidence,
+    }))
+    .sort((a, b) => a.top - b.top || a.left - b.left);
+};
+
+const layoutKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Pairs each parsed line with the OCR block it came from. Engines do not
+// always break lines the same way as their text output, so a line may also
+// match a block that contains it (or that it contains).
+export const matchLayout = (lines: string[], blocks: TextBlock[] = []): (LineLayout | undefined)[] => {
+  if (blocks.length === 0) return lines.map(() => undefined);
+
+  const tallest = Math.max(...blocks.map(block => block.relative_height));
+  const largeLines = blocks.filter(block => block.relative_height >= LARGE_TEXT).length;
+  const keys = blocks.map(block => layoutKey(block.text));
+  const used = new Set<number>();
+
+  return lines.map(line => {
+    const key = layoutKey(line);
+    if (key.length < 2) return undefined;
+
+    let index = keys.findIndex((blockKey, i) => !used.has(i) && blockKey === key);
+    if (index === -1) {
+      index = keys.findIndex(blockKey => blockKey.length >= 3 && (blockKey.includes(key) || key.includes(blockKey)));
+    }
+    if (index === -1) return undefined;
+
+    used.add(index);
+    const block = blocks[index];
+    return {
+      top: block.top,
+      relativeHeight: block.relative_height,
+      largest: block.relative_height === tallest && tallest >= LARGE_TEXT,
+      largeLines,
+    };
+  });
+};
+
+// Large text near the top of a card is the name or the logo; small text at
+// the bottom is the address and fine print. When two lines are set large, the
+// tallest is usually the logo and the runner-up the name.
+export const nameLayoutBonus = (layout?: LineLayout) => {
+  if (!layout) return 0;
+
+  let bonus = 0;
+  const logoLike = layout.largest && layout.largeLines > 1;
+  if (layout.relativeHeight >= LARGE_TEXT && !logoLike) bonus += 0.2;
+  else if (layout.relativeHeight <= SMALL_TEXT) bonus -= 0.2;
+  if (layout.top < 0.4) bonus += 0.05;
+  else if (layout.top > 0.7) bonus -= 0.1;
+  return bonus;
+};
+
+export const companyLayoutBonus = (layout?: LineLayout) => {
+  if (!layout) return 0;
+
+  let bonus = 0;
+  if (layout.largest) bonus += 0.2;
+  else if (layout.relativeHeight >= LARGE_TEXT) bonus += 0.1;
+  if (layout.relativeHeight <= SMALL_TEXT && layout.top > 0.7) bonus -= 0.15;
+  return bonus;
+};
@@ -0,0 +1,155 @@
+import { CARD_FIELDS, type CardField, type Correction, type LearnedRules, type ParsedCard } from './types.ts';
+import { cardLines, domainStems } from './text.ts';
+
+// Fields picked from a line of their own; the rest have patterns to go by
+const LINE_FIELDS: CardField[] = ['name', 'job_title', 'company'];
+
+// Misread words shorter than this are too likely to appear elsewhere on a card
+const MIN_MISREAD_LENGTH = 4;
+// How often the same correction must be seen before it is applied; one
+// correction may be a one-off, and rules rewrite every later scan
+const MIN_SUPPORT = 2;
+// How many cards from different domains must agree before a line position
+// applies to every card
+const MIN_GLOBAL_SUPPORT = 3;
+
+// Enough to beat the text heuristics, which top out near 1
+const DOMAIN_POSITION_BONUS = 0.6;
+const GLOBAL_POSITION_BONUS = 0.25;
+
+export const NO_RULES: LearnedRules = { misreads: [], positions: [], values: [] };
+
+// "Jonh" -> "John": the same word with a few characters changed. Changes of
+// case are the user's style, not the OCR's misreading.
+const isSmallEdit = (from: string, to: string) => {
+  if (from.toLowerCase() === to.toLowerCase()) return false;
+  let prefix = 0;
+  while (prefix < Math.min(from.length, to.length) && from[prefix] === to[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < Math.min(from.length, to.length) - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) suffix++;
+  const changed = Math.max(from.length, to.length) - prefix - suffix;
+  return changed <= 3 && prefix + suffix >= Math.max(from.length, to.length) / 2;
+};
+
+// The misread words in a corrected value: "Jonh Smith" -> "John Smith" gives
+// Jonh -> John. Null unless every changed word is a small edit, so rewording
+// or replacing the whole value is never taken for a misread.
+const misreadWords = (suggested: string, saved: string) => {
+  const from = suggested.split(/\s+/);
+  const to = saved.split(/\s+/);
+  if (from.length !== to.length) return null;
+
+  const changed = from
+    .map((word, index) => ({ from: word, to: to[index] }))
+    .filter(pair => pair.from !== pair.to);
+  const valid =
+    changed.length > 0 &&
+    (from.length === 1 || changed.length < from.length) &&
+    changed.every(pair => pair.from.length >= MIN_MISREAD_LENGTH && isSmallEdit(pair.from, pair.to));
+  return valid ? changed : null;
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Adds one observation to a rule list, counting repeats of the same rule
+const tally = <T extends { count: number }>(rules: Map<string, T>, key: string, rule: Omit<T, 'count'>) => {
+  const existing = rules.get(key);
+  rules.set(key, { ...rule, count: (existing?.count ?? 0) + 1 } as T);
+};
+
+// Where several rules compete for the same thing, the most frequent wins
+const strongest = <T extends { count: number }>(rules: Iterable<T>, key: (rule: T) => string) => {
+  const best = new Map<string, T>();
+  for (const rule of rules) {
+    const existing = best.get(key(rule));
+    if (!existing || existing.count < rule.count) best.set(key(rule), rule);
+  }
+  return [...best.values()].sort((a, b) => b.count - a.count);
+};
+
+// Mines the user's corrections for misreads to fix in the text, the lines
+// fields sit on, and values they always rewrite
+export const learnRules = (corrections: Correction[]): LearnedRules => {
+  const misreads = new Map<string, LearnedRules['misreads'][number]>();
+  const positions = new Map<string, LearnedRules['positions'][number]>();
+  const values = new Map<string, LearnedRules['values'][number]>();
+
+  for (const { raw_text, suggestions, final } of corrections) {
+    const lines = cardLines(raw_text);
+    const hosts = [...(final.emails ?? []).map(email => email.split('@')[1] ?? ''), ...(final.websites ?? [])];
+    const domain = domainStems(hosts)[0] ?? null;
+
+    for (const field of CARD_FIELDS) {
+      const suggested = suggestions[field]?.trim() ?? '';
+      const saved = final[field]?.trim() ?? '';
+      if (!saved || suggested === saved) continue;
+
+      const words = raw_text.includes(suggested) ? misreadWords(suggested, saved) : null;
+      if (words) {
+        for (const word of words) tally(misreads, `${word.from}\u0000${word.to}`, word);
+        continue;
+      }
+      // Only the case changed: neither a misread nor worth a rule
+      if (suggested.toLowerCase() === saved.toLowerCase()) continue;
+      if (!LINE_FIELDS.includes(field)) continue;
+
+      const line = lines.findIndex(text => text.toLowerCase() === saved.toLowerCase());
+      if (line >= 0) {
+        tally(positions, `${field}\u0000${line}\u0000${domain}`, { field, line, domain });
+      } else if (suggested) {
+        tally(values, `${field}\u0000${suggested.toLowerCase()}\u0000${saved}`, { field, from: suggested, to: saved });
+      }
+    }
+  }
+
+  // A line position seen on cards from enough different domains applies to all
+  const global = new Map<string, LearnedRules['positions'][number]>();
+  for (const rule of positions.values()) {
+    tally(global, `${rule.field}\u0000${rule.line}`, { field: rule.field, line: rule.line, domain: null });
+  }
+  const general = [...global.values()].filter(rule => rule.count >= MIN_GLOBAL_SUPPORT);
+
+  const supported = <T extends { count: number }>(rules: Iterable<T>) =>
+    [...rules].filter(rule => rule.count >= MIN_SUPPORT);
+
+  return {
+    misreads: strongest(supported(misreads.values()), rule => rule.from),
+    positions: strongest(
+      [...supported(positions.values()), ...general],
+      rule => `${rule.field}\u0000${rule.domain}`
+    ),
+    values: strongest(supported(values.values()), rule => `${rule.field}\u0000${rule.from.toLowerCase()}`),
+  };
+};
+
+// Fixes known misread words before the text is parsed, longest first so one
+// fix does not break another. Only whole words are replaced.
+export const applyMisreads = (text: string, rules: LearnedRules) =>
+  [...rules.misreads]
+    .sort((a, b) => b.from.length - a.from.length)
+    .reduce(
+      (fixed, rule) =>
+        fixed.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(rule.from)}(?![\\p{L}\\p{N}])`, 'gu'), () => rule.to),
+      text
+    );
+
+// Extra score for a line the user has put this field on before
+export const positionBonus = (rules: LearnedRules, field: CardField, line: number, stems: string[]) =>
+  rules.positions.reduce((bonus, rule) => {
+    if (rule.field !== field || rule.line !== line) return bonus;
+    if (rule.domain === null) return Math.max(bonus, GLOBAL_POSITION_BONUS);
+    return stems.includes(rule.domain) ? Math.max(bonus, DOMAIN_POSITION_BONUS) : bonus;
+  }, 0);
+
+// Rewrites values the user has always changed the same way
+export const applyValueRules = (card: ParsedCard, rules: LearnedRules) => {
+  for (const rule of rules.values) {
+    if (card[rule.field]?.toLowerCase() === rule.from.toLowerCase()) {
+      card[rule.field] = rule.to;
+    }
+  }
+  return card;
+};
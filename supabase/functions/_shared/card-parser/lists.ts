@@ -0,0 +1,14 @@
+export const uniqueBy = <T>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const itemKey = key(item);
+    if (seen.has(itemKey)) return false;
+    seen.add(itemKey);
+    return true;
+  });
+};
+
+export const primaryFirst = <T>(items: T[], isPrimary: (item: T) => boolean) => [
+  ...items.filter(isPrimary),
+  ...items.filter(item => !isPrimary(item)),
+];
@@ -0,0 +1,94 @@
+import { CARD_FIELDS, type CardField, type FieldScores, type ParsedCard } from './types.ts';
+import { MAX_ALTERNATIVES, rankCandidates, type ScoredCandidate } from './scoring.ts';
+import { primaryFirst, uniqueBy } from './lists.ts';
+
+// Every reading one side offers for a field: its value and its runners-up
+const readingsOf = (side: ParsedCard, field: CardField): ScoredCandidate[] => {
+  const value = side[field];
+  if (!value) return [];
+
+  const score = side.field_scores?.[field];
+  return [
+    { value, score: score?.confidence ?? 0.5 },
+    ...(score?.alternatives ?? []).map(alternative => ({ value: alternative.value, score: alternative.confidence })),
+  ];
+};
+
+// Combines the front and back of a two-sided card. Each field takes the more
+// confident of the two readings and keeps the other as an alternative; lists
+// are joined, and both raw texts are kept.
+export const mergeSides = (front: ParsedCard, back: ParsedCard): ParsedCard => {
+  const result: ParsedCard = {
+    raw_text: front.raw_text,
+    back_raw_text: back.raw_text,
+    confidence: front.confidence !== undefined && back.confidence !== undefined
+      ? (front.confidence + back.confidence) / 2
+      : front.confidence ?? back.confidence,
+  };
+  const fieldScores: FieldScores = {};
+
+  for (const field of CARD_FIELDS) {
+    const [top, ...rest] = rankCandidates([...readingsOf(front, field), ...readingsOf(back, field)]);
+    if (!top) continue;
+
+    result[field] = top.value;
+    fieldScores[field] = {
+      confidence: top.score,
+      alternatives: rest.slice(0, MAX_ALTERNATIVES).map(candidate => ({ value: candidate.value, confidence: candidate.score })),
+    };
+  }
+
+  // The parts go with whichever side's address won
+  const addressSide = [front, back].find(side => side.location && side.location === result.location);
+  if (addressSide?.address) result.address = addressSide.address;
+
+  result.phones = primaryFirst(
+    uniqueBy([...(front.phones ?? []), ...(back.phones ?? [])], phone => phone.e164 ?? phone.number),
+    phone => phone.number === result.phone
+  );
+  result.emails = primaryFirst(
+    uniqueBy([...(front.emails ?? []), ...(back.emails ?? [])], email => email.toLowerCase()),
+    email => email === result.email
+  );
+  result.websites = primaryFirst(
+    uniqueBy([...(front.websites ?? []), ...(back.websites ?? [])], website => website.toLowerCase()),
+    website => website === result.website
+  );
+  result.field_scores = fieldScores;
+  return result;
+};
+
+// Folds the contact from a card's QR code into the OCR reading. The code is
+// exact, so its values win; an OCR reading that differs is kept as an
+// alternative, and lists are joined with the code's entries first.
+export const mergeCodeReading = (ocr: ParsedCard, code: ParsedCard): ParsedCard => {
+  const result: ParsedCard = { ...ocr };
+  const fieldScores: FieldScores = { ...ocr.field_scores };
+
+  for (const field of CARD_FIELDS) {
+    if (!code[field]) continue;
+    const [top, ...rest] = rankCandidates([...readingsOf(code, field), ...readingsOf(ocr, field)]);
+    result[field] = top.value;
+    fieldScores[field] = {
+      confidence: top.score,
+      alternatives: rest.slice(0, MAX_ALTERNATIVES).map(candidate => ({ value: candidate.value, confidence: candidate.score })),
+    };
+  }
+
+  if (code.location) result.address = code.address;
+
+  result.phones = primaryFirst(
+    uniqueBy([...(code.phones ?? []), ...(ocr.phones ?? [])], phone => phone.e164 ?? phone.number),
+    phone => phone.number === result.phone
+  );
+  result.emails = primaryFirst(
+    uniqueBy([...(code.emails ?? []), ...(ocr.emails ?? [])], email => email.toLowerCase()),
+    email => email === result.email
+  );
+  result.websites = primaryFirst(
+    uniqueBy([...(code.websites ?? []), ...(ocr.websites ?? [])], website => website.toLowerCase()),
+    website => website === result.website
+  );
+  result.field_scores = fieldScores;
+  return result;
+};
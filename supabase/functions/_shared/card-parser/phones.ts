@@ -0,0 +1,109 @@
+import {
+  findPhoneNumbersInText,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type PhoneNumber,
+} from 'libphonenumber-js/max';
+import type { PhoneEntry, PhoneType } from './types.ts';
+
+// A run of digits with the separators cards use between groups. Only used for
+// numbers libphonenumber cannot place, so they still reach the review form.
+const phoneRunRegex = /\+?\(?\d[\d\s()./-]{6,}\d/g;
+
+const phoneCues: [PhoneType, RegExp][] = [
+  ['fax', /\b(?:f|fax)\b/i],
+  ['mobile', /\b(?:m|mob|mobile|cell|cellular|c|hp|whatsapp)\b/i],
+  ['office', /\b(?:t|tel|telephone|ph|phone|o|office|off|d|direct|dir|w|work|landline|board)\b/i],
+];
+
+export interface PhoneMatch extends PhoneEntry {
+  line: number;
+  // Whether the type came from an explicit cue such as "M:" or "Fax"
+  labelled: boolean;
+  valid: boolean;
+}
+
+export interface NormalisedPhone {
+  // International display format, or the input as typed when it is not valid
+  number: string;
+  e164?: string;
+  valid: boolean;
+  type?: PhoneType;
+}
+
+export const toRegion = (region?: string | null): CountryCode | undefined => {
+  const upper = region?.toUpperCase();
+  return upper && isSupportedCountry(upper) ? upper : undefined;
+};
+
+const typeOfNumber = (phone: PhoneNumber): PhoneType | undefined => {
+  switch (phone.getType()) {
+    case 'MOBILE':
+      return 'mobile';
+    case 'FIXED_LINE':
+      return 'office';
+    default:
+      return undefined;
+  }
+};
+
+const toEntry = (phone: PhoneNumber) => ({
+  number: phone.formatInternational(),
+  e164: phone.number as string,
+});
+
+export const normalisePhone = (input: string, defaultRegion?: string | null): NormalisedPhone => {
+  const parsed = parsePhoneNumberFromString(input, toRegion(defaultRegion));
+  if (!parsed || !parsed.isValid()) {
+    return { number: input.trim(), valid: false };
+  }
+  return { ...toEntry(parsed), valid: true, type: typeOfNumber(parsed) };
+};
+
+const cueType = (segment: string): PhoneType | undefined =>
+  phoneCues.find(([, cue]) => cue.test(segment))?.[0];
+
+// Finds every number on the card, labelling it from the cue that precedes it
+// on the same line ("T: ... M: ..."), then the line's own label, then the
+// number's own type (mobile vs. fixed line) where the numbering plan says so
+export const findPhones = (lines: string[], defaultRegion?: string | null): PhoneMatch[] => {
+  const defaultCountry = toRegion(defaultRegion);
+
+  return lines.flatMap((line, index) => {
+    const spans: { start: number; end: number; phone?: PhoneNumber; text: string }[] = [];
+
+    for (const found of findPhoneNumbersInText(line, { defaultCountry })) {
+      spans.push({ start: found.startsAt, end: found.endsAt, phone: found.number, text: line.slice(found.startsAt, found.endsAt) });
+    }
+
+    for (const match of line.matchAll(phoneRunRegex)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const digits = match[0].replace(/\D/g, '').length;
+      const overlaps = spans.some(span => start < span.end && end > span.start);
+      if (!overlaps && digits >= 8 && digits <= 15) {
+        spans.push({ start, end, text: match[0].trim() });
+      }
+    }
+
+    spans.sort((a, b) => a.start - b.start);
+
+    let previousEnd = 0;
+    return spans.map(span => {
+      const segment = line.slice(previousEnd, span.start);
+      previousEnd = span.end;
+
+      const cue = cueType(segment) ?? cueType(line);
+      const entry = span.phone ? toEntry(span.phone) : { number: span.text.replace(/[^\d+]/g, '') };
+
+      return {
+        ...entry,
+        type: cue ?? (span.phone ? typeOfNumber(span.phone) : undefined) ?? 'other',
+        line: index,
+        labelled: !!cue,
+        valid: !!span.phone,
+      };
+    });
+  });
+};
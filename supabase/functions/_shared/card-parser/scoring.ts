@@ -0,0 +1,52 @@
+import type { FieldCandidate, FieldScore } from './types.ts';
+
+// Fields scored below this are flagged for review in the contact form
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const MAX_ALTERNATIVES = 3;
+
+export interface ScoredCandidate {
+  value: string;
+  score: number;
+  // Index of the source line, used to stop one line filling two fields
+  line?: number;
+}
+
+const clamp = (value: number) => Math.min(0.99, Math.max(0, value));
+
+// Highest score first, keeping the best-scored copy of values that repeat
+export const rankCandidates = (candidates: ScoredCandidate[]): ScoredCandidate[] => {
+  const best = new Map<string, ScoredCandidate>();
+
+  for (const candidate of candidates) {
+    if (candidate.score <= 0) continue;
+    const key = candidate.value.toLowerCase();
+    const existing = best.get(key);
+    if (!existing || existing.score < candidate.score) {
+      best.set(key, candidate);
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score);
+};
+
+// Scales a heuristic score by how much the OCR engine trusted the text overall
+export const toConfidence = (score: number, ocrConfidence?: number) => {
+  const ocrFactor = ocrConfidence === undefined ? 1 : 0.6 + 0.4 * clamp(ocrConfidence);
+  return Math.round(clamp(score) * ocrFactor * 100) / 100;
+};
+
+export const toFieldScore = (ranked: ScoredCandidate[], ocrConfidence?: number): FieldScore | undefined => {
+  const [top, ...rest] = ranked;
+  if (!top) return undefined;
+
+  const alternatives: FieldCandidate[] = rest.slice(0, MAX_ALTERNATIVES).map(candidate => ({
+    value: candidate.value,
+    confidence: toConfidence(candidate.score, ocrConfidence),
+  }));
+
+  return {
+    confidence: toConfidence(top.score, ocrConfidence),
+    alternatives,
+  };
+};
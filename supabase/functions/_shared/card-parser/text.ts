@@ -0,0 +1,11 @@
+const genericMailDomains = ['gmail', 'yahoo', 'outlook', 'hotmail', 'icloud', 'proton', 'protonmail'];
+
+// The card's non-empty lines, as the parser numbers them
+export const cardLines = (text: string) =>
+  text.split(/[\n\r]+/).map(line => line.trim()).filter(line => line.length > 1);
+
+// Second-level domain stems ("acmerobotics") used to tie lines to the company
+export const domainStems = (hosts: string[]) =>
+  hosts
+    .map(host => host.toLowerCase().replace(/^www\./, '').split('.')[0].replace(/[^a-z0-9]/g, ''))
+    .filter(stem => stem.length >= 3 && !genericMailDomains.includes(stem));
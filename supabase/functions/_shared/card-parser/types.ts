@@ -0,0 +1,138 @@
+// Shared between the browser and the Supabase edge functions (Deno), so this
+// module and its siblings must stay free of DOM APIs and `@/` path aliases.
+// Bare npm imports need a matching entry in supabase/functions/import_map.json.
+
+export type CardField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'job_title'
+  | 'website'
+  | 'location';
+
+export const CARD_FIELDS: CardField[] = [
+  'name',
+  'email',
+  'phone',
+  'company',
+  'job_title',
+  'website',
+  'location',
+];
+
+export type PhoneType = 'mobile' | 'office' | 'fax' | 'other';
+
+export const PHONE_TYPES: PhoneType[] = ['mobile', 'office', 'fax', 'other'];
+
+export type PhoneEntry = {
+  type: PhoneType;
+  // Display format, e.g. "+91 98450 12345"
+  number: string;
+  // Absent when the number could not be validated for any region
+  e164?: string;
+};
+
+// Type aliases, like PhoneEntry, so addresses and scores can be stored as Json
+export type PostalAddress = {
+  street?: string;
+  city?: string;
+  // State, province or county
+  region?: string;
+  postal_code?: string;
+  country?: string;
+};
+
+export type FieldCandidate = {
+  value: string;
+  // 0-1, combining the parser's heuristics with the OCR engine's confidence
+  confidence: number;
+};
+
+export type FieldScore = {
+  confidence: number;
+  // Runner-up values the parser considered, best first
+  alternatives: FieldCandidate[];
+};
+
+export type FieldScores = Partial<Record<CardField, FieldScore>>;
+
+export type ParsedCard = {
+  [K in CardField]?: string;
+} & {
+  // Every number, address and URL on the card; the single-value fields above
+  // hold the primary entry of each list
+  phones?: PhoneEntry[];
+  emails?: string[];
+  websites?: string[];
+  // `location` split into parts; `location` keeps the card's own wording
+  address?: PostalAddress;
+  raw_text: string;
+  // OCR text of the back of the card, for two-sided scans
+  back_raw_text?: string;
+  confidence?: number;
+  field_scores?: FieldScores;
+};
+
+// One line of OCR text and where it sits on the card
+export interface TextBlock {
+  text: string;
+  // Bounding box as fractions of the image size, origin top-left
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // Text height relative to the card's median line (1 = typical size)
+  relative_height: number;
+  confidence?: number;
+}
+
+export interface ExtractOptions {
+  // Overall OCR confidence (0-1) reported by the engine that produced the text
+  confidence?: number;
+  // ISO 3166 alpha-2 region for numbers printed without a country code
+  defaultRegion?: string | null;
+  // Line geometry from the OCR engine, when it reports any
+  layout?: TextBlock[];
+  // What the user's past corrections taught the parser
+  rules?: LearnedRules;
+}
+
+// A field the user fixed before saving a scanned contact
+export interface Correction {
+  // The card text as parsed
+  raw_text: string;
+  suggestions: Partial<Record<CardField, string>>;
+  final: Partial<Record<CardField, string>> & { emails?: string[]; websites?: string[] };
+}
+
+// A word the OCR keeps getting wrong in the same way ("Srnith" for "Smith"),
+// fixed in the text before it is parsed
+export interface MisreadRule {
+  from: string;
+  to: string;
+  count: number;
+}
+
+// The line a field sits on, for cards from one domain ("the company is the
+// second line on acme.com cards"), or for every card when `domain` is null
+export interface PositionRule {
+  field: CardField;
+  line: number;
+  domain: string | null;
+  count: number;
+}
+
+// A value the user always rewrites the same way ("ACME" -> "Acme Robotics")
+export interface ValueRule {
+  field: CardField;
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface LearnedRules {
+  misreads: MisreadRule[];
+  positions: PositionRule[];
+  values: ValueRule[];
+}
@@ -0,0 +1,43 @@
+// Shared with the browser (through src/lib/ocr/errors.ts), so no imports and
+// no DOM
+
+// Why a provider could not read a card. The first six are sent by the edge
+// function; the rest are raised in the browser.
+export type OcrErrorCode =
+  | 'unauthorized'
+  | 'bad_input'
+  | 'image_too_large'
+  | 'unsupported_type'
+  | 'no_text'
+  | 'quota_exceeded'
+  | 'provider_error'
+  | 'timeout'
+  | 'cancelled';
+
+export type VisionErrorCode = Exclude<OcrErrorCode, 'timeout' | 'cancelled'>;
+
+export const VISION_ERROR_STATUS: Record<VisionErrorCode, number> = {
+  unauthorized: 401,
+  bad_input: 400,
+  image_too_large: 413,
+  unsupported_type: 415,
+  no_text: 422,
+  quota_exceeded: 429,
+  provider_error: 502,
+};
+
+export const isOcrErrorCode = (code: unknown): code is OcrErrorCode =>
+  typeof code === 'string' && (code in VISION_ERROR_STATUS || code === 'timeout' || code === 'cancelled');
+
+export class OcrError extends Error {
+  constructor(readonly code: OcrErrorCode, message: string) {
+    super(message);
+    this.name = 'OcrError';
+  }
+}
+
+// Anything a provider throws, as an OcrError
+export const toOcrError = (error: unknown): OcrError =>
+  error instanceof OcrError
+    ? error
+    : new OcrError('provider_error', error instanceof Error ? error.message : String(error));
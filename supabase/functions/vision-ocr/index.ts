@@ -1,82 +1,335 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "@supabase/supabase-js"
+import { toTextBlocks, type PixelLine } from "../_shared/card-parser/index.ts"
+import { OcrError, VISION_ERROR_STATUS, type VisionErrorCode } from "../_shared/ocr-errors.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Comma-separated origins allowed to call the function, e.g.
+// "https://cards.example.com,http://localhost:8080". Browsers are refused
+// when unset: other origins get no CORS headers.
+const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+const corsHeaders = (req: Request): Record<string, string> => {
+  const origin = req.headers.get('Origin') ?? ''
+  return {
+    ...(allowedOrigins.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  }
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+// Vision takes at most 10MB of JSON per request; base64 adds a third
+const MAX_IMAGE_BYTES = 7 * 1024 * 1024
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+
+// What each type's first bytes must be, so a renamed file is caught here
+// rather than by Vision
+const imageSignatures: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/png': bytes => [0x89, 0x50, 0x4e, 0x47].every((byte, i) => bytes[i] === byte),
+  'image/webp': bytes => String.fromCharCode(...bytes.slice(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP',
+  'image/gif': bytes => String.fromCharCode(...bytes.slice(0, 4)) === 'GIF8',
+  'image/bmp': bytes => bytes[0] === 0x42 && bytes[1] === 0x4d,
+}
+
+interface Vertex { x?: number; y?: number }
+interface VisionSymbol { text: string; property?: { detectedBreak?: { type: string } } }
+interface VisionWord { boundingBox?: { vertices: Vertex[] }; symbols: VisionSymbol[]; confidence?: number }
+interface VisionPage {
+  width: number
+  height: number
+  blocks?: { paragraphs?: { words?: VisionWord[] }[] }[]
+}
+
+const lineBreaks = ['LINE_BREAK', 'EOL_SURE_SPACE']
+
+// Vision groups words into paragraphs; split them back into printed lines,
+// each with the box around its words
+const pageLines = (page: VisionPage): PixelLine[] => {
+  const lines: PixelLine[] = []
+  let words: VisionWord[] = []
+  let text = ''
+
+  const closeLine = () => {
+    const vertices = words.flatMap(word => word.boundingBox?.vertices ?? [])
+    if (text.trim() && vertices.length > 0) {
+      const xs = vertices.map(vertex => vertex.x ?? 0)
+      const ys = vertices.map(vertex => vertex.y ?? 0)
+      const confidences = words.map(word => word.confidence).filter((value): value is number => value !== undefined)
+      lines.push({
+        text: text.trim(),
+        x0: Math.min(...xs),
+        y0: Math.min(...ys),
+        x1: Math.max(...xs),
+        y1: Math.max(...ys),
+        confidence: confidences.length ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : undefined,
+      })
+    }
+    words = []
+    text = ''
   }
 
-  try {
-    const { imageData } = await req.json()
-    
-    const GOOGLE_CLOUD_API_KEY = Deno.env.get('GOOGLE_CLOUD_API_KEY')
-    
-    if (!GOOGLE_CLOUD_API_KEY) {
-      throw new Error('Google Cloud API key not configured')
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs ?? []) {
+      for (const word of paragraph.words ?? []) {
+        words.push(word)
+        for (const symbol of word.symbols) {
+          text += symbol.text
+          const breakType = symbol.property?.detectedBreak?.type
+          if (breakType && lineBreaks.includes(breakType)) {
+            closeLine()
+          } else if (breakType) {
+            text += ' '
+          }
+        }
+      }
+      closeLine()
     }
+  }
 
-    // Remove data:image/jpeg;base64, prefix if present
-    const base64Image = imageData.replace(/^data:image\/[a-z]+;base64,/, '')
+  return lines
+}
 
-    const response = await fetch(
-      `https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_CLOUD_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          requests: [
-            {
-              image: {
-                content: base64Image,
-              },
-              features: [
-                {
-                  type: 'DOCUMENT_TEXT_DETECTION',
-                  maxResults: 1,
-                },
-              ],
+// The caller, checked against Supabase Auth
+const verifyCaller = async (req: Request) => {
+  const authorization = req.headers.get('Authorization') ?? ''
+  const token = authorization.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new OcrError('unauthorized', 'Sign in to scan cards')
+  }
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  })
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) {
+    throw new OcrError('unauthorized', 'Your session has expired. Please sign in again.')
+  }
+  return data.user
+}
+
+// Usage is written with the service role; users cannot insert it themselves
+const serviceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+// Takes a scan from the caller's monthly quota before Vision is called, in
+// one database call so concurrent requests cannot overspend it. Returns the
+// usage row to settle with finishUsage(); see reserve_ocr_scan().
+const reserveScan = async (userId: string, bytes: number) => {
+  const { data, error } = await serviceClient()
+    .rpc('reserve_ocr_scan', { caller_id: userId, image_bytes: bytes })
+    .single()
+  if (error || !data) {
+    throw new Error(`Could not reserve OCR usage: ${error?.message}`)
+  }
+  if (!data.usage_id) {
+    throw new OcrError('quota_exceeded', `You have used all ${data.monthly_limit} Google Vision scans for this month`)
+  }
+  return data.usage_id as string
+}
+
+// Records how the reserved scan went. A failure no longer counts towards the
+// quota, which refunds the reservation.
+const finishUsage = async (usageId: string, durationMs: number, code: VisionErrorCode | null) => {
+  const { error } = await serviceClient()
+    .from('ocr_usage')
+    .update({ duration_ms: durationMs, success: code === null, error_code: code })
+    .eq('id', usageId)
+  if (error) console.error('Could not record OCR usage:', error)
+}
+
+interface VisionRequest {
+  base64Image: string
+  languageHints: string[]
+  bytes: number
+}
+
+// The request body, read no further than MAX_BODY_BYTES. Content-Length
+// can be missing or wrong, so the bytes are counted as they arrive.
+const readBody = async (req: Request) => {
+  const tooLarge = () => new OcrError('image_too_large', 'The image is too large. Use a photo under 7MB.')
+  if (Number(req.headers.get('Content-Length')) > MAX_BODY_BYTES) {
+    throw tooLarge()
+  }
+  if (!req.body) {
+    throw new OcrError('bad_input', 'The request has no body')
+  }
+
+  const reader = req.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new TextDecoder().decode(body)
+}
+
+const readRequest = async (req: Request): Promise<VisionRequest> => {
+  const text = await readBody(req)
+
+  let body: { imageData?: unknown; languageHints?: unknown }
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new OcrError('bad_input', 'The request is not valid JSON')
+  }
+
+  const match = typeof body.imageData === 'string'
+    ? body.imageData.match(/^data:([a-z]+\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/]+={0,2})$/i)
+    : null
+  if (!match) {
+    throw new OcrError('bad_input', 'Expected the image as a base64 data URL')
+  }
+
+  const [, mimeType, base64Image] = match
+  const matchesType = imageSignatures[mimeType.toLowerCase()]
+  if (!matchesType) {
+    throw new OcrError('unsupported_type', `Images of type ${mimeType} are not supported`)
+  }
+  const padding = base64Image.endsWith('==') ? 2 : base64Image.endsWith('=') ? 1 : 0
+  const bytes = (base64Image.length * 3) / 4 - padding
+  if (bytes > MAX_IMAGE_BYTES) {
+    throw new OcrError('image_too_large', 'The image is too large. Use a photo under 7MB.')
+  }
+  const header = Uint8Array.from(atob(base64Image.slice(0, 16)), char => char.charCodeAt(0))
+  if (!matchesType(header)) {
+    throw new OcrError('unsupported_type', `The image is not a valid ${mimeType} file`)
+  }
+
+  const languageHints = Array.isArray(body.languageHints)
+    ? body.languageHints.filter((hint): hint is string => typeof hint === 'string')
+    : []
+  return { base64Image, languageHints, bytes }
+}
+
+// Vision's own failures: its quota, an image it cannot open, anything else
+const visionError = (status: number, error?: { code?: number; message?: string; status?: string }) => {
+  if (status === 429 || error?.status === 'RESOURCE_EXHAUSTED') {
+    return new OcrError('quota_exceeded', 'The text recognition quota has been used up')
+  }
+  if (error?.status === 'INVALID_ARGUMENT' || error?.code === 3) {
+    return new OcrError('bad_input', error.message ?? 'Google Vision could not open the image')
+  }
+  return new OcrError('provider_error', error?.message ?? `Google Vision responded ${status}`)
+}
+
+const annotate = async ({ base64Image, languageHints }: VisionRequest) => {
+  const GOOGLE_CLOUD_API_KEY = Deno.env.get('GOOGLE_CLOUD_API_KEY')
+  
+  if (!GOOGLE_CLOUD_API_KEY) {
+    throw new OcrError('provider_error', 'Google Cloud API key not configured')
+  }
+
+  const response = await fetch(
+    `https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_CLOUD_API_KEY}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: {
+              content: base64Image,
             },
-          ],
-        }),
-      }
-    )
+            features: [
+              {
+                type: 'DOCUMENT_TEXT_DETECTION',
+                maxResults: 1,
+              },
+            ],
+            // Without hints Vision detects the language itself
+            ...(languageHints.length > 0 ? { imageContext: { languageHints } } : {}),
+          },
+        ],
+      }),
+    }
+  )
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result) {
+    throw visionError(response.status, result?.error)
+  }
+  if (result.responses?.[0]?.error) {
+    throw visionError(response.status, result.responses[0].error)
+  }
+  
+  if (!result.responses?.[0]?.textAnnotations?.[0]) {
+    throw new OcrError('no_text', 'No text detected in image')
+  }
+
+  const extractedText = result.responses[0].textAnnotations[0].description
+  const page: VisionPage | undefined = result.responses[0].fullTextAnnotation?.pages?.[0]
+  const blocks = page ? toTextBlocks(pageLines(page), page.width, page.height) : []
+  return {
+    success: true,
+    text: extractedText,
+    confidence: result.responses[0].textAnnotations[0].score || 0.8,
+    blocks,
+    locale: result.responses[0].textAnnotations[0].locale ?? null,
+  }
+}
+
+const errorCode = (error: unknown): VisionErrorCode =>
+  error instanceof OcrError && error.code in VISION_ERROR_STATUS ? error.code as VisionErrorCode : 'provider_error'
+
+serve(async (req) => {
+  const headers = { ...corsHeaders(req), 'Content-Type': 'application/json' }
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders(req) })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new OcrError('bad_input', 'Use POST')
+    }
+    const user = await verifyCaller(req)
+    const request = await readRequest(req)
 
-    const result = await response.json()
-    
-    if (result.responses?.[0]?.textAnnotations?.[0]) {
-      const extractedText = result.responses[0].textAnnotations[0].description
-      
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          text: extractedText,
-          confidence: result.responses[0].textAnnotations[0].score || 0.8
-        }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        },
-      )
-    } else {
-      throw new Error('No text detected in image')
+    // Every call is metered, including refused and failed ones. Only
+    // successful scans count towards the quota.
+    const started = Date.now()
+    const usageId = await reserveScan(user.id, request.bytes)
+    try {
+      const result = await annotate(request)
+      await finishUsage(usageId, Date.now() - started, null)
+      return new Response(JSON.stringify(result), { headers, status: 200 })
+    } catch (error) {
+      await finishUsage(usageId, Date.now() - started, errorCode(error))
+      throw error
     }
 
   } catch (error) {
+    const code = errorCode(error)
+    if (code === 'provider_error') console.error('vision-ocr failed:', error)
     return new Response(
       JSON.stringify({ 
         success: false, 
-        error: error.message 
+        code,
+        // Internal failures are logged above, not sent to the caller
+        error: error instanceof OcrError ? error.message : 'Text recognition failed',
       }),
       {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        headers,
+        status: VISION_ERROR_STATUS[code],
       },
     )
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,18 @@
+-- Cards usually carry several numbers (mobile, office, fax), e-mail addresses
+-- and URLs. The single-value columns stay as the primary value of each list.
+ALTER TABLE public.contacts
+  ADD COLUMN phones JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN emails TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN websites TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.contacts
+  ADD CONSTRAINT contacts_phones_is_array CHECK (jsonb_typeof(phones) = 'array');
+
+UPDATE public.contacts
+SET
+  phones = CASE
+    WHEN phone IS NOT NULL AND phone <> '' THEN jsonb_build_array(jsonb_build_object('type', 'other', 'number', phone))
+    ELSE '[]'::jsonb
+  END,
+  emails = CASE WHEN email IS NOT NULL AND email <> '' THEN ARRAY[email] ELSE '{}' END,
+  websites = CASE WHEN website IS NOT NULL AND website <> '' THEN ARRAY[website] ELSE '{}' END;
@@ -0,0 +1,16 @@
+-- Region used to read numbers printed without a country code (ISO 3166 alpha-2)
+ALTER TABLE public.profiles
+  ADD COLUMN default_region TEXT CHECK (default_region ~ '^[A-Z]{2}$');
+
+-- E.164 form of the primary phone number, for matching and de-duplication.
+-- Each entry in contacts.phones carries its own "e164" key alongside the
+-- display-formatted "number".
+ALTER TABLE public.contacts
+  ADD COLUMN phone_e164 TEXT;
+
+CREATE INDEX contacts_user_phone_e164_idx ON public.contacts (user_id, phone_e164)
+  WHERE phone_e164 IS NOT NULL;
+
+UPDATE public.contacts
+SET phone_e164 = regexp_replace(phone, '[^0-9+]', '', 'g')
+WHERE phone ~ '^\+[0-9\s().-]{7,}$';
@@ -0,0 +1,9 @@
+-- Parts of the postal address. contacts.location keeps the whole address as a
+-- single line for display and export. Existing rows only have location; the
+-- contact form splits it into parts the next time they are edited.
+ALTER TABLE public.contacts
+  ADD COLUMN address_street TEXT,
+  ADD COLUMN address_city TEXT,
+  ADD COLUMN address_region TEXT,
+  ADD COLUMN address_postal_code TEXT,
+  ADD COLUMN address_country TEXT;
@@ -0,0 +1,4 @@
+-- Language cards are usually printed in, as a BCP-47 tag ("ja", "zh-Hans").
+-- NULL means auto-detect.
+ALTER TABLE public.profiles
+  ADD COLUMN ocr_language TEXT;
@@ -0,0 +1,5 @@
+-- Two-sided cards keep the back's image and OCR text next to the front's
+-- (image_url / raw_text)
+ALTER TABLE public.contacts
+  ADD COLUMN back_image_url TEXT,
+  ADD COLUMN back_raw_text TEXT;
@@ -0,0 +1,22 @@
+-- Photos of scanned cards. Objects live under "<user id>/", and each user can
+-- only reach their own folder. contacts.image_url and contacts.back_image_url
+-- hold object paths inside this bucket, not public URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('card-images', 'card-images', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own card images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'card-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own card images"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'card-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own card images"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'card-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own card images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'card-images' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,4 @@
+-- Send the thresholded, deskewed image to Google Vision instead of the photo.
+-- Tesseract always gets the processed image.
+ALTER TABLE public.profiles
+  ADD COLUMN vision_preprocess BOOLEAN NOT NULL DEFAULT false;
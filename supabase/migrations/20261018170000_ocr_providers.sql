@@ -0,0 +1,9 @@
+-- Order, timeouts and endpoint of the OCR providers. NULL means the defaults:
+-- Google Vision, then Tesseract.
+ALTER TABLE public.profiles
+  ADD COLUMN ocr_settings JSONB;
+
+-- Which provider read the card: vision, tesseract, http, or pdf/qr when no
+-- OCR was needed
+ALTER TABLE public.contacts
+  ADD COLUMN ocr_provider TEXT;
@@ -0,0 +1,55 @@
+-- One row per call to the vision-ocr function, written by the function with
+-- the service role. Users can read their own rows but not write them.
+CREATE TABLE public.ocr_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'vision',
+  bytes INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL,
+  error_code TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ocr_usage_user_id_created_at_idx ON public.ocr_usage (user_id, created_at);
+
+ALTER TABLE public.ocr_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own OCR usage"
+ON public.ocr_usage FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Monthly number of successful Google Vision scans per user. Users without a
+-- row get the default in get_ocr_usage(). Only the service role sets these.
+CREATE TABLE public.ocr_quotas (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_limit INTEGER NOT NULL CHECK (monthly_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ocr_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own OCR quota"
+ON public.ocr_quotas FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The signed-in user's scans this calendar month (UTC) against their limit.
+-- Failed calls are recorded but not counted.
+CREATE OR REPLACE FUNCTION public.get_ocr_usage()
+RETURNS TABLE (used INTEGER, monthly_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT count(*)::INTEGER FROM public.ocr_usage
+      WHERE user_id = auth.uid()
+        AND success
+        AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    ),
+    coalesce((SELECT q.monthly_limit FROM public.ocr_quotas q WHERE q.user_id = auth.uid()), 100),
+    (date_trunc('month', now() AT TIME ZONE 'UTC') + INTERVAL '1 month') AT TIME ZONE 'UTC';
+$$;
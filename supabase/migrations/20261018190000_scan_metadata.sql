@@ -0,0 +1,36 @@
+-- How each scanned contact was read: the OCR provider, its confidence, what
+-- the parser suggested against what the user saved, and how long it took.
+-- Written once when the contact is first saved; contacts typed in by hand
+-- have none.
+CREATE TABLE public.scan_metadata (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT,
+  ocr_provider TEXT,
+  confidence REAL,
+  -- Per-field confidence and runner-up values, as FieldScores
+  field_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  suggestions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  final_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  corrected_fields TEXT[] NOT NULL DEFAULT '{}',
+  ocr_ms INTEGER,
+  parse_ms INTEGER,
+  total_ms INTEGER,
+  -- From the end of the scan to the save
+  review_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX scan_metadata_contact_id_idx ON public.scan_metadata (contact_id);
+CREATE INDEX scan_metadata_user_id_created_at_idx ON public.scan_metadata (user_id, created_at);
+
+ALTER TABLE public.scan_metadata ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scan metadata"
+ON public.scan_metadata FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scan metadata"
+ON public.scan_metadata FOR INSERT
+WITH CHECK (auth.uid() = user_id);
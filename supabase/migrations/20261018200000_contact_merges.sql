@@ -0,0 +1,163 @@
+-- Free-text notes on a contact, kept through merges
+ALTER TABLE public.contacts ADD COLUMN notes TEXT;
+
+-- One row per merge, holding what it changed so it can be undone for a short
+-- while afterwards. Rows are removed on undo, or by the client once the undo
+-- window has passed and the unused card images are deleted.
+CREATE TABLE public.contact_merges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kept_id UUID NOT NULL,
+  -- The surviving contact as it was before the merge
+  kept_before JSONB NOT NULL,
+  -- The merged-away contacts, as whole rows
+  removed JSONB NOT NULL,
+  -- scan_metadata ids moved to the surviving contact, with their old contact_id
+  moved_scans JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Card images no contact uses after the merge, deleted once it is final
+  unused_images TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX contact_merges_user_id_created_at_idx ON public.contact_merges (user_id, created_at);
+
+ALTER TABLE public.contact_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact merges"
+ON public.contact_merges FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact merges"
+ON public.contact_merges FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Writes the chosen values onto keep_id, moves the other contacts' scan
+-- history to it and deletes them, all in one transaction. Returns the merge
+-- id for undo_contact_merge().
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  keep_id UUID,
+  merged_values JSONB,
+  remove_ids UUID[],
+  unused_images TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merge_id UUID;
+BEGIN
+  SELECT * INTO kept FROM public.contacts WHERE id = keep_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', keep_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF keep_id = ANY(remove_ids) OR coalesce(cardinality(remove_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Nothing to merge' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.contacts WHERE id = ANY(remove_ids) AND user_id = auth.uid()
+  ) <> cardinality(remove_ids) THEN
+    RAISE EXCEPTION 'Contacts to merge not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.contact_merges (user_id, kept_id, kept_before, removed, moved_scans, unused_images)
+  SELECT
+    auth.uid(),
+    keep_id,
+    to_jsonb(kept),
+    (SELECT jsonb_agg(to_jsonb(c)) FROM public.contacts c WHERE c.id = ANY(remove_ids)),
+    coalesce(
+      (SELECT jsonb_agg(jsonb_build_object('id', s.id, 'contact_id', s.contact_id))
+       FROM public.scan_metadata s WHERE s.contact_id = ANY(remove_ids)),
+      '[]'::jsonb
+    ),
+    coalesce(unused_images, '{}')
+  RETURNING id INTO merge_id;
+
+  UPDATE public.contacts c SET
+    name = m.name,
+    company = m.company,
+    job_title = m.job_title,
+    phone = m.phone,
+    phone_e164 = m.phone_e164,
+    phones = m.phones,
+    email = m.email,
+    emails = m.emails,
+    website = m.website,
+    websites = m.websites,
+    location = m.location,
+    address_street = m.address_street,
+    address_city = m.address_city,
+    address_region = m.address_region,
+    address_postal_code = m.address_postal_code,
+    address_country = m.address_country,
+    raw_text = m.raw_text,
+    back_raw_text = m.back_raw_text,
+    image_url = m.image_url,
+    back_image_url = m.back_image_url,
+    notes = m.notes
+  FROM jsonb_populate_record(kept, merged_values) m
+  WHERE c.id = keep_id;
+
+  UPDATE public.scan_metadata SET contact_id = keep_id WHERE contact_id = ANY(remove_ids);
+  DELETE FROM public.contacts WHERE id = ANY(remove_ids);
+
+  RETURN merge_id;
+END;
+$$;
+
+-- Puts back the contacts a merge deleted, their scan history and the
+-- surviving contact's old values. Only possible for ten minutes.
+CREATE OR REPLACE FUNCTION public.undo_contact_merge(merge_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  undone public.contact_merges;
+BEGIN
+  SELECT * INTO undone FROM public.contact_merges
+  WHERE id = merge_id AND user_id = auth.uid() AND created_at > now() - INTERVAL '10 minutes'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.contacts
+  SELECT * FROM jsonb_populate_recordset(NULL::public.contacts, undone.removed);
+
+  UPDATE public.scan_metadata s SET contact_id = (moved->>'contact_id')::UUID
+  FROM jsonb_array_elements(undone.moved_scans) moved
+  WHERE s.id = (moved->>'id')::UUID;
+
+  UPDATE public.contacts c SET
+    name = b.name,
+    company = b.company,
+    job_title = b.job_title,
+    phone = b.phone,
+    phone_e164 = b.phone_e164,
+    phones = b.phones,
+    email = b.email,
+    emails = b.emails,
+    website = b.website,
+    websites = b.websites,
+    location = b.location,
+    address_street = b.address_street,
+    address_city = b.address_city,
+    address_region = b.address_region,
+    address_postal_code = b.address_postal_code,
+    address_country = b.address_country,
+    raw_text = b.raw_text,
+    back_raw_text = b.back_raw_text,
+    image_url = b.image_url,
+    back_image_url = b.back_image_url,
+    notes = b.notes
+  FROM jsonb_populate_record(NULL::public.contacts, undone.kept_before) b
+  WHERE c.id = undone.kept_id;
+
+  DELETE FROM public.contact_merges WHERE id = merge_id;
+END;
+$$;
@@ -0,0 +1,206 @@
+-- Labels the user files contacts under ("lead", "speaker"), each with a
+-- colour from the app's palette
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT 'gray',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX tags_user_id_name_idx ON public.tags (user_id, lower(name));
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags"
+ON public.tags FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+ON public.tags FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Which contacts carry which tags. Both sides must belong to the user.
+CREATE TABLE public.contact_tags (
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (contact_id, tag_id)
+);
+
+CREATE INDEX contact_tags_tag_id_idx ON public.contact_tags (tag_id);
+
+ALTER TABLE public.contact_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact tags"
+ON public.contact_tags FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.contacts c WHERE c.id = contact_id AND c.user_id = auth.uid()));
+
+CREATE POLICY "Users can tag their own contacts"
+ON public.contact_tags FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.contacts c WHERE c.id = contact_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can untag their own contacts"
+ON public.contact_tags FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.contacts c WHERE c.id = contact_id AND c.user_id = auth.uid()));
+
+-- Merges now carry tags across: the surviving contact gets every tag of the
+-- contacts merged into it, and undo takes back the ones it did not have
+ALTER TABLE public.contact_merges
+  ADD COLUMN removed_tags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN added_tags UUID[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  keep_id UUID,
+  merged_values JSONB,
+  remove_ids UUID[],
+  unused_images TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merge_id UUID;
+BEGIN
+  SELECT * INTO kept FROM public.contacts WHERE id = keep_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', keep_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF keep_id = ANY(remove_ids) OR coalesce(cardinality(remove_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Nothing to merge' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.contacts WHERE id = ANY(remove_ids) AND user_id = auth.uid()
+  ) <> cardinality(remove_ids) THEN
+    RAISE EXCEPTION 'Contacts to merge not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.contact_merges (user_id, kept_id, kept_before, removed, moved_scans, removed_tags, added_tags, unused_images)
+  SELECT
+    auth.uid(),
+    keep_id,
+    to_jsonb(kept),
+    (SELECT jsonb_agg(to_jsonb(c)) FROM public.contacts c WHERE c.id = ANY(remove_ids)),
+    coalesce(
+      (SELECT jsonb_agg(jsonb_build_object('id', s.id, 'contact_id', s.contact_id))
+       FROM public.scan_metadata s WHERE s.contact_id = ANY(remove_ids)),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (SELECT jsonb_agg(to_jsonb(t)) FROM public.contact_tags t WHERE t.contact_id = ANY(remove_ids)),
+      '[]'::jsonb
+    ),
+    ARRAY(
+      SELECT DISTINCT t.tag_id FROM public.contact_tags t
+      WHERE t.contact_id = ANY(remove_ids)
+        AND NOT EXISTS (SELECT 1 FROM public.contact_tags k WHERE k.contact_id = keep_id AND k.tag_id = t.tag_id)
+    ),
+    coalesce(unused_images, '{}')
+  RETURNING id INTO merge_id;
+
+  UPDATE public.contacts c SET
+    name = m.name,
+    company = m.company,
+    job_title = m.job_title,
+    phone = m.phone,
+    phone_e164 = m.phone_e164,
+    phones = m.phones,
+    email = m.email,
+    emails = m.emails,
+    website = m.website,
+    websites = m.websites,
+    location = m.location,
+    address_street = m.address_street,
+    address_city = m.address_city,
+    address_region = m.address_region,
+    address_postal_code = m.address_postal_code,
+    address_country = m.address_country,
+    raw_text = m.raw_text,
+    back_raw_text = m.back_raw_text,
+    image_url = m.image_url,
+    back_image_url = m.back_image_url,
+    notes = m.notes
+  FROM jsonb_populate_record(kept, merged_values) m
+  WHERE c.id = keep_id;
+
+  UPDATE public.scan_metadata SET contact_id = keep_id WHERE contact_id = ANY(remove_ids);
+  INSERT INTO public.contact_tags (contact_id, tag_id)
+  SELECT DISTINCT keep_id, tag_id FROM public.contact_tags WHERE contact_id = ANY(remove_ids)
+  ON CONFLICT DO NOTHING;
+  DELETE FROM public.contacts WHERE id = ANY(remove_ids);
+
+  RETURN merge_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.undo_contact_merge(merge_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  undone public.contact_merges;
+BEGIN
+  SELECT * INTO undone FROM public.contact_merges
+  WHERE id = merge_id AND user_id = auth.uid() AND created_at > now() - INTERVAL '10 minutes'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.contacts
+  SELECT * FROM jsonb_populate_recordset(NULL::public.contacts, undone.removed);
+
+  -- Tags deleted since the merge stay deleted
+  INSERT INTO public.contact_tags
+  SELECT * FROM jsonb_populate_recordset(NULL::public.contact_tags, undone.removed_tags) r
+  WHERE EXISTS (SELECT 1 FROM public.tags t WHERE t.id = r.tag_id);
+  DELETE FROM public.contact_tags WHERE contact_id = undone.kept_id AND tag_id = ANY(undone.added_tags);
+
+  UPDATE public.scan_metadata s SET contact_id = (moved->>'contact_id')::UUID
+  FROM jsonb_array_elements(undone.moved_scans) moved
+  WHERE s.id = (moved->>'id')::UUID;
+
+  UPDATE public.contacts c SET
+    name = b.name,
+    company = b.company,
+    job_title = b.job_title,
+    phone = b.phone,
+    phone_e164 = b.phone_e164,
+    phones = b.phones,
+    email = b.email,
+    emails = b.emails,
+    website = b.website,
+    websites = b.websites,
+    location = b.location,
+    address_street = b.address_street,
+    address_city = b.address_city,
+    address_region = b.address_region,
+    address_postal_code = b.address_postal_code,
+    address_country = b.address_country,
+    raw_text = b.raw_text,
+    back_raw_text = b.back_raw_text,
+    image_url = b.image_url,
+    back_image_url = b.back_image_url,
+    notes = b.notes
+  FROM jsonb_populate_record(NULL::public.contacts, undone.kept_before) b
+  WHERE c.id = undone.kept_id;
+
+  DELETE FROM public.contact_merges WHERE id = merge_id;
+END;
+$$;
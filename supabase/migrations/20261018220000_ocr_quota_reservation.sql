@@ -0,0 +1,40 @@
+-- Takes one scan from the user's monthly quota before Google Vision is
+-- called, so concurrent requests cannot all pass a check made beforehand.
+-- The row is written as a success and corrected by the function once Vision
+-- answers; a failed scan gives its reservation back that way. Over the limit,
+-- the refused call is recorded and no id is returned. Only the service role
+-- (the vision-ocr function) may call this.
+CREATE OR REPLACE FUNCTION public.reserve_ocr_scan(caller_id UUID, image_bytes INTEGER)
+RETURNS TABLE (usage_id UUID, monthly_limit INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  used INTEGER;
+BEGIN
+  -- One reservation at a time per user
+  PERFORM pg_advisory_xact_lock(hashtext('ocr_usage:' || caller_id::TEXT));
+
+  monthly_limit := coalesce((SELECT q.monthly_limit FROM public.ocr_quotas q WHERE q.user_id = caller_id), 100);
+  SELECT count(*)::INTEGER INTO used FROM public.ocr_usage u
+  WHERE u.user_id = caller_id AND u.success AND u.created_at >= month_start;
+
+  INSERT INTO public.ocr_usage (user_id, provider, bytes, duration_ms, success, error_code)
+  VALUES (
+    caller_id,
+    'vision',
+    image_bytes,
+    0,
+    used < monthly_limit,
+    CASE WHEN used < monthly_limit THEN NULL ELSE 'quota_exceeded' END
+  )
+  RETURNING CASE WHEN success THEN id END INTO usage_id;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ocr_scan(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_ocr_scan(UUID, INTEGER) TO service_role;
@@ -0,0 +1,10 @@
+-- Scan metadata could be written against any contact id, including another
+-- user's. The contact must now belong to the user as well.
+DROP POLICY "Users can create their own scan metadata" ON public.scan_metadata;
+
+CREATE POLICY "Users can create their own scan metadata"
+ON public.scan_metadata FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.contacts c WHERE c.id = contact_id AND c.user_id = auth.uid())
+);
@@ -0,0 +1,185 @@
+-- Merges now also save a new card onto a saved contact: with no contacts to
+-- remove, merge_contacts() writes the combined values, adds the card's tags
+-- and records its scan, all in one transaction that undo can take back. The
+-- OCR provider is carried across with the card image and text it belongs to.
+ALTER TABLE public.contact_merges
+  -- scan_metadata row written for the added card, deleted on undo
+  ADD COLUMN added_scan UUID;
+
+DROP FUNCTION public.merge_contacts(UUID, JSONB, UUID[], TEXT[]);
+
+CREATE FUNCTION public.merge_contacts(
+  keep_id UUID,
+  merged_values JSONB,
+  remove_ids UUID[] DEFAULT '{}',
+  unused_images TEXT[] DEFAULT '{}',
+  add_tag_ids UUID[] DEFAULT '{}',
+  scan JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merge_id UUID;
+  scan_id UUID;
+BEGIN
+  remove_ids := coalesce(remove_ids, '{}');
+  add_tag_ids := coalesce(add_tag_ids, '{}');
+
+  SELECT * INTO kept FROM public.contacts WHERE id = keep_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', keep_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF keep_id = ANY(remove_ids) THEN
+    RAISE EXCEPTION 'A contact cannot be merged into itself' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.contacts WHERE id = ANY(remove_ids) AND user_id = auth.uid()
+  ) <> cardinality(remove_ids) THEN
+    RAISE EXCEPTION 'Contacts to merge not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  -- Only the caller's own tags can be added
+  add_tag_ids := ARRAY(SELECT t.id FROM public.tags t WHERE t.id = ANY(add_tag_ids) AND t.user_id = auth.uid());
+
+  INSERT INTO public.contact_merges (user_id, kept_id, kept_before, removed, moved_scans, removed_tags, added_tags, unused_images)
+  SELECT
+    auth.uid(),
+    keep_id,
+    to_jsonb(kept),
+    coalesce((SELECT jsonb_agg(to_jsonb(c)) FROM public.contacts c WHERE c.id = ANY(remove_ids)), '[]'::jsonb),
+    coalesce(
+      (SELECT jsonb_agg(jsonb_build_object('id', s.id, 'contact_id', s.contact_id))
+       FROM public.scan_metadata s WHERE s.contact_id = ANY(remove_ids)),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (SELECT jsonb_agg(to_jsonb(t)) FROM public.contact_tags t WHERE t.contact_id = ANY(remove_ids)),
+      '[]'::jsonb
+    ),
+    ARRAY(
+      SELECT DISTINCT a.tag_id FROM (
+        SELECT t.tag_id FROM public.contact_tags t WHERE t.contact_id = ANY(remove_ids)
+        UNION
+        SELECT unnest(add_tag_ids)
+      ) a
+      WHERE NOT EXISTS (SELECT 1 FROM public.contact_tags k WHERE k.contact_id = keep_id AND k.tag_id = a.tag_id)
+    ),
+    coalesce(unused_images, '{}')
+  RETURNING id INTO merge_id;
+
+  UPDATE public.contacts c SET
+    name = m.name,
+    company = m.company,
+    job_title = m.job_title,
+    phone = m.phone,
+    phone_e164 = m.phone_e164,
+    phones = m.phones,
+    email = m.email,
+    emails = m.emails,
+    website = m.website,
+    websites = m.websites,
+    location = m.location,
+    address_street = m.address_street,
+    address_city = m.address_city,
+    address_region = m.address_region,
+    address_postal_code = m.address_postal_code,
+    address_country = m.address_country,
+    raw_text = m.raw_text,
+    back_raw_text = m.back_raw_text,
+    image_url = m.image_url,
+    back_image_url = m.back_image_url,
+    ocr_provider = m.ocr_provider,
+    notes = m.notes
+  FROM jsonb_populate_record(kept, merged_values) m
+  WHERE c.id = keep_id;
+
+  UPDATE public.scan_metadata SET contact_id = keep_id WHERE contact_id = ANY(remove_ids);
+  INSERT INTO public.contact_tags (contact_id, tag_id)
+  SELECT DISTINCT keep_id, tag_id FROM (
+    SELECT t.tag_id FROM public.contact_tags t WHERE t.contact_id = ANY(remove_ids)
+    UNION
+    SELECT unnest(add_tag_ids)
+  ) a
+  ON CONFLICT DO NOTHING;
+  DELETE FROM public.contacts WHERE id = ANY(remove_ids);
+
+  IF scan IS NOT NULL THEN
+    INSERT INTO public.scan_metadata (
+      contact_id, user_id, source, ocr_provider, confidence, field_scores, suggestions, final_values,
+      corrected_fields, ocr_ms, parse_ms, total_ms, review_ms
+    )
+    SELECT
+      keep_id, auth.uid(), s.source, s.ocr_provider, s.confidence,
+      coalesce(s.field_scores, '{}'::jsonb), coalesce(s.suggestions, '{}'::jsonb), coalesce(s.final_values, '{}'::jsonb),
+      coalesce(s.corrected_fields, '{}'), s.ocr_ms, s.parse_ms, s.total_ms, s.review_ms
+    FROM jsonb_populate_record(NULL::public.scan_metadata, scan) s
+    RETURNING id INTO scan_id;
+    UPDATE public.contact_merges SET added_scan = scan_id WHERE id = merge_id;
+  END IF;
+
+  RETURN merge_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.undo_contact_merge(merge_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  undone public.contact_merges;
+BEGIN
+  SELECT * INTO undone FROM public.contact_merges
+  WHERE id = merge_id AND user_id = auth.uid() AND created_at > now() - INTERVAL '10 minutes'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.contacts
+  SELECT * FROM jsonb_populate_recordset(NULL::public.contacts, undone.removed);
+
+  -- Tags deleted since the merge stay deleted
+  INSERT INTO public.contact_tags
+  SELECT * FROM jsonb_populate_recordset(NULL::public.contact_tags, undone.removed_tags) r
+  WHERE EXISTS (SELECT 1 FROM public.tags t WHERE t.id = r.tag_id);
+  DELETE FROM public.contact_tags WHERE contact_id = undone.kept_id AND tag_id = ANY(undone.added_tags);
+
+  UPDATE public.scan_metadata s SET contact_id = (moved->>'contact_id')::UUID
+  FROM jsonb_array_elements(undone.moved_scans) moved
+  WHERE s.id = (moved->>'id')::UUID;
+  DELETE FROM public.scan_metadata WHERE id = undone.added_scan;
+
+  UPDATE public.contacts c SET
+    name = b.name,
+    company = b.company,
+    job_title = b.job_title,
+    phone = b.phone,
+    phone_e164 = b.phone_e164,
+    phones = b.phones,
+    email = b.email,
+    emails = b.emails,
+    website = b.website,
+    websites = b.websites,
+    location = b.location,
+    address_street = b.address_street,
+    address_city = b.address_city,
+    address_region = b.address_region,
+    address_postal_code = b.address_postal_code,
+    address_country = b.address_country,
+    raw_text = b.raw_text,
+    back_raw_text = b.back_raw_text,
+    image_url = b.image_url,
+    back_image_url = b.back_image_url,
+    ocr_provider = b.ocr_provider,
+    notes = b.notes
+  FROM jsonb_populate_record(NULL::public.contacts, undone.kept_before) b
+  WHERE c.id = undone.kept_id;
+
+  DELETE FROM public.contact_merges WHERE id = merge_id;
+END;
+$$;